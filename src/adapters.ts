@@ -0,0 +1,294 @@
+import { HassEntity } from 'home-assistant-js-websocket';
+import { DomainAdapter, SlotAction, SlotMode, SlotState, TimeSlot, ValueRange } from './types';
+
+const action = (entityId: string, service: string, service_data: Record<string, unknown> = {}): SlotAction => ({
+  entity_id: entityId,
+  service,
+  service_data,
+});
+
+// Read a numeric attribute off the target entity, falling back if it's missing
+const attrNumber = (stateObj: HassEntity | undefined, key: string, fallback: number): number => {
+  const raw = stateObj?.attributes?.[key];
+  const num = typeof raw === 'number' ? raw : parseFloat(raw);
+  return Number.isFinite(num) ? num : fallback;
+};
+
+// A recorded attribute as a number, 0 if it's missing (e.g. brightness of a light that's off)
+const numberAttr = (attributes: Record<string, unknown>, key: string): number => {
+  const raw = attributes[key];
+  const num = typeof raw === 'number' ? raw : parseFloat(String(raw));
+  return Number.isFinite(num) ? num : 0;
+};
+
+// "unavailable" and "unknown" say nothing about what the entity did
+const isKnown = (state: string): boolean => state !== 'unavailable' && state !== 'unknown';
+
+/**
+ * Plain on/off domains: `<domain>.turn_on` / `<domain>.turn_off`.
+ * Also used as the fallback for any domain without its own adapter.
+ */
+const onOffAdapter = (domain: string): DomainAdapter => ({
+  domain,
+  modes: ['off', 'on'],
+  defaultValue: 0,
+  range: () => ({ min: 0, max: 0, step: 1 }),
+  buildActions: (entityId, slot) => [action(entityId, slot.on ? `${domain}.turn_on` : `${domain}.turn_off`)],
+  parseAction: (service) => {
+    if (service === `${domain}.turn_on`) return { on: true, value: 0 };
+    if (service === `${domain}.turn_off`) return { on: false, value: 0 };
+    return null;
+  },
+});
+
+const lightAdapter: DomainAdapter = {
+  domain: 'light',
+  modes: ['off', 'on', 'value'],
+  label: 'Brightness',
+  unit: '%',
+  defaultValue: 100,
+  range: () => ({ min: 1, max: 100, step: 1 }),
+  buildActions: (entityId, slot) => {
+    if (!slot.on) return [action(entityId, 'light.turn_off')];
+    // 0 = just "on", >0 = brightness_pct
+    return [action(entityId, 'light.turn_on', slot.value > 0 ? { brightness_pct: slot.value } : {})];
+  },
+  parseAction: (service, data) => {
+    if (service === 'light.turn_off') return { on: false, value: 0 };
+    if (service === 'light.turn_on') return { on: true, value: Number(data.brightness_pct ?? 0) };
+    return null;
+  },
+  readState: (state, attributes) => {
+    if (!isKnown(state)) return null;
+    if (state !== 'on') return { on: false, value: 0 };
+    return { on: true, value: Math.round((numberAttr(attributes, 'brightness') / 255) * 100) };
+  },
+};
+
+const climateAdapter: DomainAdapter = {
+  domain: 'climate',
+  modes: ['off', 'value'],
+  label: 'Temperature',
+  unit: '°C',
+  defaultValue: 20,
+  range: (stateObj) => ({
+    min: attrNumber(stateObj, 'min_temp', 5),
+    max: attrNumber(stateObj, 'max_temp', 30),
+    step: attrNumber(stateObj, 'target_temp_step', 0.5),
+  }),
+  buildActions: (entityId, slot) => {
+    if (!slot.on) return [action(entityId, 'climate.set_hvac_mode', { hvac_mode: 'off' })];
+    // "value" is a temperature
+    return [action(entityId, 'climate.set_temperature', { hvac_mode: 'heat', temperature: slot.value })];
+  },
+  parseAction: (service, data) => {
+    if (service === 'climate.set_hvac_mode') {
+      if (data.hvac_mode === 'off') return { on: false, value: 0 };
+      return { on: true, value: Number(data.temperature ?? climateAdapter.defaultValue) };
+    }
+    if (service === 'climate.set_temperature') {
+      return { on: true, value: Number(data.temperature ?? climateAdapter.defaultValue) };
+    }
+    return null;
+  },
+  // The measured temperature, not the target, so the overlay shows whether the room got there
+  readState: (state, attributes) => {
+    if (!isKnown(state)) return null;
+    if (state === 'off') return { on: false, value: 0 };
+    return { on: true, value: numberAttr(attributes, 'current_temperature') };
+  },
+};
+
+const coverAdapter: DomainAdapter = {
+  domain: 'cover',
+  modes: ['off', 'on', 'value'],
+  label: 'Position',
+  unit: '%',
+  defaultValue: 50,
+  range: () => ({ min: 1, max: 100, step: 1 }),
+  buildActions: (entityId, slot) => {
+    if (!slot.on) return [action(entityId, 'cover.close_cover')];
+    if (slot.value > 0) return [action(entityId, 'cover.set_cover_position', { position: slot.value })];
+    return [action(entityId, 'cover.open_cover')];
+  },
+  parseAction: (service, data) => {
+    if (service === 'cover.close_cover') return { on: false, value: 0 };
+    if (service === 'cover.open_cover') return { on: true, value: 0 };
+    if (service === 'cover.set_cover_position') {
+      const position = Number(data.position ?? 0);
+      return position > 0 ? { on: true, value: position } : { on: false, value: 0 };
+    }
+    return null;
+  },
+  readState: (state, attributes) => {
+    if (!isKnown(state)) return null;
+    const position = numberAttr(attributes, 'current_position');
+    return state === 'closed' || position === 0 ? { on: false, value: 0 } : { on: true, value: position };
+  },
+};
+
+const fanAdapter: DomainAdapter = {
+  domain: 'fan',
+  modes: ['off', 'on', 'value'],
+  label: 'Speed',
+  unit: '%',
+  defaultValue: 50,
+  range: (stateObj) => ({ min: 1, max: 100, step: attrNumber(stateObj, 'percentage_step', 1) }),
+  buildActions: (entityId, slot) => {
+    if (!slot.on) return [action(entityId, 'fan.turn_off')];
+    if (slot.value > 0) return [action(entityId, 'fan.set_percentage', { percentage: slot.value })];
+    return [action(entityId, 'fan.turn_on')];
+  },
+  parseAction: (service, data) => {
+    if (service === 'fan.turn_off') return { on: false, value: 0 };
+    if (service === 'fan.turn_on') return { on: true, value: Number(data.percentage ?? 0) };
+    if (service === 'fan.set_percentage') return { on: true, value: Number(data.percentage ?? 0) };
+    return null;
+  },
+  readState: (state, attributes) => {
+    if (!isKnown(state)) return null;
+    return state === 'on' ? { on: true, value: numberAttr(attributes, 'percentage') } : { on: false, value: 0 };
+  },
+};
+
+const inputNumberAdapter: DomainAdapter = {
+  domain: 'input_number',
+  // An input_number has no off state, every slot sets a value
+  modes: ['value'],
+  label: 'Value',
+  defaultValue: 1,
+  range: (stateObj) => ({
+    min: attrNumber(stateObj, 'min', 0),
+    max: attrNumber(stateObj, 'max', 100),
+    step: attrNumber(stateObj, 'step', 1),
+  }),
+  buildActions: (entityId, slot) => [action(entityId, 'input_number.set_value', { value: slot.value })],
+  parseAction: (service, data) => {
+    if (service === 'input_number.set_value') return { on: true, value: Number(data.value ?? 0) };
+    return null;
+  },
+  readState: (state) => {
+    const value = parseFloat(state);
+    return Number.isFinite(value) ? { on: true, value } : null;
+  },
+};
+
+const waterHeaterAdapter: DomainAdapter = {
+  domain: 'water_heater',
+  modes: ['off', 'value'],
+  label: 'Temperature',
+  unit: '°C',
+  defaultValue: 50,
+  range: (stateObj) => ({
+    min: attrNumber(stateObj, 'min_temp', 30),
+    max: attrNumber(stateObj, 'max_temp', 70),
+    step: attrNumber(stateObj, 'target_temp_step', 1),
+  }),
+  buildActions: (entityId, slot) => {
+    if (!slot.on) return [action(entityId, 'water_heater.turn_off')];
+    return [action(entityId, 'water_heater.set_temperature', { temperature: slot.value })];
+  },
+  parseAction: (service, data) => {
+    if (service === 'water_heater.turn_off') return { on: false, value: 0 };
+    if (service === 'water_heater.set_temperature') {
+      return { on: true, value: Number(data.temperature ?? waterHeaterAdapter.defaultValue) };
+    }
+    return null;
+  },
+  readState: (state, attributes) => {
+    if (!isKnown(state)) return null;
+    if (state === 'off') return { on: false, value: 0 };
+    return { on: true, value: numberAttr(attributes, 'current_temperature') || numberAttr(attributes, 'temperature') };
+  },
+};
+
+const humidifierAdapter: DomainAdapter = {
+  domain: 'humidifier',
+  modes: ['off', 'on', 'value'],
+  label: 'Humidity',
+  unit: '%',
+  defaultValue: 50,
+  // 0 would be sent as a plain turn_on, so the slider starts at 1 like the other on/value domains
+  range: (stateObj) => ({
+    min: Math.max(1, attrNumber(stateObj, 'min_humidity', 1)),
+    max: attrNumber(stateObj, 'max_humidity', 100),
+    step: 1,
+  }),
+  buildActions: (entityId, slot) => {
+    if (!slot.on) return [action(entityId, 'humidifier.turn_off')];
+    if (slot.value > 0) return [action(entityId, 'humidifier.set_humidity', { humidity: slot.value })];
+    return [action(entityId, 'humidifier.turn_on')];
+  },
+  parseAction: (service, data) => {
+    if (service === 'humidifier.turn_off') return { on: false, value: 0 };
+    if (service === 'humidifier.turn_on') return { on: true, value: 0 };
+    if (service === 'humidifier.set_humidity') return { on: true, value: Number(data.humidity ?? 0) };
+    return null;
+  },
+  readState: (state, attributes) => {
+    if (!isKnown(state)) return null;
+    if (state !== 'on') return { on: false, value: 0 };
+    return { on: true, value: numberAttr(attributes, 'current_humidity') || numberAttr(attributes, 'humidity') };
+  },
+};
+
+const adapters: Record<string, DomainAdapter> = {};
+
+/**
+ * Register (or replace) the adapter used for a domain.
+ */
+export function registerDomainAdapter(adapter: DomainAdapter): void {
+  adapters[adapter.domain] = adapter;
+}
+
+/**
+ * Adapter for a domain, or a plain on/off adapter if none is registered.
+ */
+export function getDomainAdapter(domain: string): DomainAdapter {
+  return adapters[domain] ?? onOffAdapter(domain);
+}
+
+/**
+ * Which mode a slot is in, as far as the adapter's modes go, i.e. which
+ * action it will send. Without an 'off' mode even an off slot sets its value.
+ */
+export function getSlotMode(adapter: DomainAdapter, slot: TimeSlot): SlotMode {
+  if (!slot.on && adapter.modes.includes('off')) return 'off';
+  if (!adapter.modes.includes('value')) return 'on';
+  if (slot.value > 0 || !adapter.modes.includes('on')) return 'value';
+  return 'on';
+}
+
+/**
+ * What a recorded state of the entity was, through the adapter if it knows
+ * how, else as plain on/off. Null for unavailable/unknown or unreadable states.
+ */
+export function readActualState(
+  adapter: DomainAdapter,
+  state: string,
+  attributes: Record<string, unknown> = {}
+): SlotState | null {
+  if (adapter.readState) return adapter.readState(state, attributes);
+  if (state === 'on') return { on: true, value: 0 };
+  if (state === 'off') return { on: false, value: 0 };
+  return null;
+}
+
+/**
+ * Clamp a value into the adapter's range for the given entity.
+ */
+export function clampToRange(value: number, range: ValueRange): number {
+  return Math.min(range.max, Math.max(range.min, value));
+}
+
+[
+  onOffAdapter('switch'),
+  onOffAdapter('input_boolean'),
+  lightAdapter,
+  climateAdapter,
+  coverAdapter,
+  fanAdapter,
+  inputNumberAdapter,
+  waterHeaterAdapter,
+  humidifierAdapter,
+].forEach(registerDomainAdapter);
@@ -1,11 +1,55 @@
 import { LitElement, html, css, TemplateResult, CSSResultGroup } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
+import { guard } from 'lit/directives/guard.js';
 import {
   HomeAssistant,
   LovelaceCard,
   LovelaceCardEditor,
 } from 'custom-card-helpers';
-import { ApsleyCardConfig, TimeSlot } from './types';
+import {
+  ApsleyCardConfig,
+  ApsleyDay,
+  ConditionSet,
+  DomainAdapter,
+  ExistingSchedule,
+  HistorySegment,
+  HistoryState,
+  OverlapPolicy,
+  ScheduleActionAttribute,
+  ScheduleAttributes,
+  ScheduleCondition,
+  ScheduleOverride,
+  ScheduleProfile,
+  SchedulerServiceData,
+  SchedulerTimeslot,
+  SchedulerWSItem,
+  SlotAction,
+  SlotMode,
+  SlotRef,
+  SlotState,
+  SunAnchor,
+  SunEvent,
+  SyncDayResult,
+  SyncOperation,
+  TimeSlot,
+  UnreadableSchedule,
+  ValueRange,
+} from './types';
+import { clampToRange, getDomainAdapter, getSlotMode, readActualState } from './adapters';
+import {
+  ALL_DAYS,
+  DEVIATION_MIN_MINUTES,
+  DEVIATION_TOLERANCE,
+  HISTORY_LIMIT,
+  HISTORY_REFRESH_MS,
+  MINUTES_PER_DAY,
+  OVERRIDE_SWITCH_TAG,
+  OVERRIDE_TAG,
+  WEEKEND,
+  WORKDAYS,
+} from './const';
+import { migrateConfig } from './migrate';
+import { ExportFormat, exportSchedule, importSchedule, serializeSchedule } from './transfer';
 import './editor';
 import { fireEvent } from 'custom-card-helpers';
 
@@ -15,73 +59,237 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
 
   private _config?: ApsleyCardConfig;
 
-  // Each slot's start/end is stored in "intervals of 10 minutes".
-  // 0 = 00:00, 1 = 00:10, ..., 144 = 24:00
-  @state() private _days: { dayName: string; timeSlots: TimeSlot[] }[] = [];
+  // Each slot's start/end is stored in minutes since midnight.
+  // 0 = 00:00, 10 = 00:10, ..., 1440 = 24:00
+  @state() private _days: ApsleyDay[] = [];
   @state() private _selectedDayIndex: number | null = null;
   @state() private _selectedSlotIndex: number | null = null;
+  // Shift/Ctrl-click or rubber-band selection; only used when more than one slot is picked
+  @state() private _multiSelection: SlotRef[] = [];
+  // Rubber band being drawn over the days, in px relative to the days container
+  @state() private _band: { x1: number; y1: number; x2: number; y2: number } | null = null;
+  private _bandOrigin: { x: number; y: number; pointerId: number } | null = null;
+  // The click that ends a rubber band must not also add a slot
+  private _suppressTrackClick = false;
   @state() private _isSynced = false;
+  // Pending sync plan shown in the preview panel, null when closed
+  @state() private _syncPreview: SyncOperation[] | null = null;
+  // Set when confirming found the week changed under the preview, which was rebuilt instead
+  @state() private _syncPreviewStale = false;
+  // Per-day outcome of the last sync, null when the result panel is closed
+  @state() private _syncResults: SyncDayResult[] | null = null;
 
   // For dragging entire slots
   private _draggingTrackDayIndex: number | null = null;
   private _draggingTrackSlotIndex: number | null = null;
-  private _draggingTrackInitialStart = 0; // in intervals
-  private _draggingTrackInitialEnd = 0;   // in intervals
+  private _draggingTrackInitialStart = 0; // in minutes
+  private _draggingTrackInitialEnd = 0;   // in minutes
   private _draggingTrackPointerFrac = 0;  // fraction along the slot for anchoring
+  private _draggingTrackPointerOffset = 0; // MINUTES_PER_DAY when dragging by the after-midnight part
 
   // For dragging slot boundaries
   private _draggingBoundaryDayIndex: number | null = null;
   private _draggingBoundarySlotIndex: number | null = null;
   private _dragBoundary: 'start' | 'end' | null = null;
-  private _dragBoundaryOriginalInterval: number | null = null;
+  private _dragBoundaryOriginalMinutes: number | null = null;
+
+  // _days when the current drag started. Push/trim are worked out from this
+  // on every move, so slots squeezed on the way come back if the drag does.
+  private _dragStartDays: ApsleyDay[] | null = null;
+  private _dragStartSlotIndex: number | null = null;
+
+  // Per-timeslot conditions of each schedule entity, from the scheduler websocket API.
+  // State attributes don't carry conditions, so this is fetched separately.
+  private _scheduleConditions: Record<string, Array<ConditionSet | undefined>> = {};
+
+  // Schedules for our entities the card can't read, shown as a warning and never synced
+  @state() private _unreadableSchedules: UnreadableSchedule[] = [];
+
+  // Date overrides for our entities, also from the websocket API (state attributes have no dates)
+  @state() private _overrides: ScheduleOverride[] = [];
+  // "Add override" panel, null when closed; source is 'off' or the day name to copy
+  @state() private _overrideDraft: { name: string; startDate: string; endDate: string; source: string } | null = null;
+  @state() private _overrideError = '';
+
+  // Undo/redo: snapshots of _days before each edit, most recent last
+  @state() private _undoStack: ApsleyDay[][] = [];
+  @state() private _redoStack: ApsleyDay[][] = [];
+  // Edits sharing a key (one drag, one slider move) collapse into one undo step
+  private _historyKey: string | null = null;
+
+  // Day copied with a row's copy button, pasted onto other rows
+  @state() private _copiedDay: ApsleyDay | null = null;
+  // Row whose "copy to…" panel is open, and the days ticked in it
+  @state() private _copyToDayIndex: number | null = null;
+  @state() private _copyToTargets: number[] = [];
+  @state() private _copyToMode: 'replace' | 'merge' = 'replace';
+  // Slots the last merge left out because they overlapped, e.g. "Tuesday 08:00–12:00"
+  @state() private _copySkipped: string[] = [];
+
+  // Name of the profile last loaded, shown in the header selector
+  @state() private _activeProfile: string | null = null;
+
+  // Import/export panel: text to import (null when closed) and what was wrong with it
+  @state() private _importText: string | null = null;
+  @state() private _importErrors: string[] = [];
+  // Set when the file was made for other entities or another domain; importing again goes ahead
+  @state() private _importWarning = '';
+
+  // Read out by screen readers after a keyboard edit
+  @state() private _announcement = '';
+
+  // Re-renders the card so the "now" line and countdown keep moving
+  private _clockTimer: number | null = null;
+
+  // History overlay: what the first entity did, per server-local date (YYYY-MM-DD),
+  // and the same checked against the plan, redone whenever the days change
+  @state() private _historyPieces: Record<string, Omit<HistorySegment, 'deviation'>[]> = {};
+  private _history: Record<string, HistorySegment[]> = {};
+  private _historyFetchedAt = 0;
+
+  // Time typed into "split at" in the options panel, null = middle of the slot
+  @state() private _splitAt: number | null = null;
 
   private _focusTimeout: number | null = null;
   @state() private _isDragging = false;
 
+  // time_step is only the snapping grid for drags and clicks, slots are stored in minutes
   private get minutesPerInterval(): number {
-    // fallback to 10 if not specified
     return this._config?.time_step ?? 60;
   }
+
+  /**
+   * A slot whose end comes before its start runs past midnight into the
+   * next day, e.g. 22:00–06:00. Lengths and moves work on the "extended"
+   * end (up to 48:00) and `_wrapEnd` folds it back into 0..24:00.
+   */
+  private _wraps(slot: { start: number; end: number }): boolean {
+    return slot.end < slot.start;
+  }
+
+  private _extendedEnd(start: number, end: number): number {
+    return end < start ? end + MINUTES_PER_DAY : end;
+  }
+
+  private _wrapEnd(extendedEnd: number): number {
+    return extendedEnd > MINUTES_PER_DAY ? extendedEnd - MINUTES_PER_DAY : extendedEnd;
+  }
+
+  /**
+   * Round minutes to the nearest time_step.
+   */
+  private _snapMinutes(minutes: number): number {
+    const step = this.minutesPerInterval;
+    return Math.round(minutes / step) * step;
+  }
+
   /**
-   * Convert "HH:MM" → number of 10-min intervals.
-   * E.g.  "00:00" → 0,  "00:10" → 1,  "09:10" → 9*6 + 1 = 55, ...
+   * Convert "HH:MM" (or "HH:MM:SS") → minutes since midnight.
+   * E.g.  "00:00" → 0,  "00:10" → 10,  "09:10" → 550, ...
    */
-  private _parseTimeToIntervals(timeStr: string): number {
+  private _parseTimeToMinutes(timeStr: string): number {
     const [hourStr, minuteStr] = timeStr.split(':');
     const hour = parseInt(hourStr, 10) || 0;
     const minute = parseInt(minuteStr, 10) || 0;
 
-    const step = this.minutesPerInterval;         // e.g. 10, 15, 30, or 60
-    const intervalsPerHour = 60 / step;           // e.g. 6 (10-min), 4 (15-min), etc.
+    // Sync writes end-of-day as "23:59:59", read it back as 24:00
+    if (hour === 23 && minute === 59) return MINUTES_PER_DAY;
 
-    return hour * intervalsPerHour + Math.floor(minute / step);
-  }
-  private get maxIntervals(): number {
-    return (24 * 60) / this.minutesPerInterval; 
+    return hour * 60 + minute;
   }
+
   /**
-   * Convert intervals (0..144) → "HH:MM"
-   * E.g.  0 → "00:00",  1 → "00:10",  55 → "09:10"
+   * Convert minutes (0..1440) → "HH:MM"
+   * E.g.  0 → "00:00",  10 → "00:10",  550 → "09:10"
    */
-  private _formatIntervals(intervals: number): string {
-    const maxIntervals = this.maxIntervals; // Maximum intervals based on time_step
-    const step = this.minutesPerInterval; // Minutes per interval
-  
-    // Clamp intervals within valid range
-    if (intervals < 0) intervals = 0;
-    if (intervals > maxIntervals) intervals = maxIntervals;
-  
-    // Convert intervals to total minutes
-    const totalMinutes = intervals * step;
-  
+  private _formatMinutes(minutes: number): string {
+    // Clamp minutes within valid range
+    if (minutes < 0) minutes = 0;
+    if (minutes > MINUTES_PER_DAY) minutes = MINUTES_PER_DAY;
+
     // Calculate hours and minutes
-    const hh = Math.floor(totalMinutes / 60);
-    const mm = totalMinutes % 60;
-  
+    const hh = Math.floor(minutes / 60);
+    const mm = minutes % 60;
+
     // Return formatted time string
     return `${hh.toString().padStart(2, '0')}:${mm.toString().padStart(2, '0')}`;
   }
 
+  /**
+   * Today's sunrise/sunset in minutes since midnight, from `sun.sun`.
+   * Falls back to 06:00 / 18:00 when the sun integration isn't available.
+   */
+  private _sunEventMinutes(event: SunEvent): number {
+    const sun = this.hass?.states['sun.sun'];
+    const iso = sun?.attributes?.[event === 'sunrise' ? 'next_rising' : 'next_setting'];
+    const date = iso ? new Date(iso) : null;
+    if (!date || isNaN(date.getTime())) return event === 'sunrise' ? 360 : 1080;
+    // In HA's time zone, like the slots, not the browser's
+    return this._zonedParts(date).minutes;
+  }
+
+  private _resolveSunAnchor(anchor: SunAnchor): number {
+    const minutes = this._sunEventMinutes(anchor.event) + anchor.offset;
+    return Math.max(0, Math.min(MINUTES_PER_DAY, minutes));
+  }
+
+  /**
+   * Place sun-anchored boundaries on the track using today's sun times.
+   */
+  private _resolveSunTimes(days: ApsleyDay[]): ApsleyDay[] {
+    return days.map(day => ({
+      ...day,
+      timeSlots: day.timeSlots.map(slot => ({
+        ...slot,
+        start: slot.startSun ? this._resolveSunAnchor(slot.startSun) : slot.start,
+        end: slot.endSun ? this._resolveSunAnchor(slot.endSun) : slot.end,
+      })),
+    }));
+  }
+
+  /**
+   * Parse one side of a scheduler timeslot: "HH:MM:SS", "sunrise", "sunset-01:00:00", ...
+   */
+  private _parseBoundary(str: string): { minutes: number; sun?: SunAnchor } {
+    const match = /^(sunrise|sunset)\s*(?:([+-])\s*(\d{1,2}):(\d{2})(?::\d{2})?)?$/.exec(str.trim());
+    if (!match) return { minutes: this._parseTimeToMinutes(str) };
+
+    const event = match[1] as SunEvent;
+    const sign = match[2] === '-' ? -1 : 1;
+    const offset = match[2] ? sign * (parseInt(match[3], 10) * 60 + parseInt(match[4], 10)) : 0;
+    const sun = { event, offset };
+    return { minutes: this._resolveSunAnchor(sun), sun };
+  }
+
+  /**
+   * The reverse of `_parseBoundary`, e.g. "08:00:00" or "sunset-01:00:00".
+   */
+  private _formatBoundary(minutes: number, sun?: SunAnchor): string {
+    if (!sun) return this._formatMinutes(minutes) + ':00';
+    if (!sun.offset) return sun.event;
+    const sign = sun.offset < 0 ? '-' : '+';
+    return `${sun.event}${sign}${this._formatMinutes(Math.abs(sun.offset))}:00`;
+  }
+
+  // "Sunset −01:00" style label for the options panel
+  private _formatSunAnchor(sun: SunAnchor): string {
+    const name = sun.event === 'sunrise' ? 'Sunrise' : 'Sunset';
+    if (!sun.offset) return name;
+    return `${name} ${sun.offset < 0 ? '−' : '+'}${this._formatMinutes(Math.abs(sun.offset))}`;
+  }
+
+  /**
+   * Split "start - stop" from a schedule's `timeslots` attribute. Split on the
+   * spaced dash first, since sun offsets like "sunset-01:00:00" contain one too.
+   */
+  private _splitTimeslot(slotStr: string): [string, string] | null {
+    let parts = slotStr.split(' - ');
+    if (parts.length !== 2) parts = slotStr.split('-');
+    if (parts.length !== 2) return null;
+    const [startStr, stopStr] = parts.map(part => part.trim());
+    return startStr && stopStr ? [startStr, stopStr] : null;
+  }
+
   /**
    * Mapping from e.g. 'mon' to 'Monday'
    */
@@ -98,141 +306,394 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
     }
   }
 
-  // Load existing schedules from HA state objects, parse them into 10-min intervals
-  private _loadExistingSchedulesFromHA(): void {
-    if (!this.hass || !this._config) return;
-  
-    const targetEntity = this._config.entity;
-    if (!targetEntity) return;
-  
-    const dayNameToSlots: Record<string, TimeSlot[]> = {
-      Monday: [],
-      Tuesday: [],
-      Wednesday: [],
-      Thursday: [],
-      Friday: [],
-      Saturday: [],
-      Sunday: [],
-    };
-  
+  /**
+   * Mapping from e.g. 'Monday' to 'mon'
+   */
+  private _mapDayNameToCode(dayName: string): string | null {
+    switch (dayName) {
+      case 'Monday': return 'mon';
+      case 'Tuesday': return 'tue';
+      case 'Wednesday': return 'wed';
+      case 'Thursday': return 'thu';
+      case 'Friday': return 'fri';
+      case 'Saturday': return 'sat';
+      case 'Sunday': return 'sun';
+      default: return null;
+    }
+  }
+
+  /**
+   * Expand scheduler weekday codes into day names, including the groups
+   * "daily", "workday" (Mon–Fri) and "weekend" (Sat–Sun).
+   */
+  private _expandDayCodes(codes: string[]): string[] {
+    const names = new Set<string>();
+    for (const code of codes) {
+      const group = code === 'daily'
+        ? ALL_DAYS
+        : code === 'workday'
+          ? WORKDAYS
+          : code === 'weekend'
+            ? WEEKEND
+            : null;
+      if (group) {
+        group.forEach(name => names.add(name));
+        continue;
+      }
+      const dayName = this._mapDayCodeToName(code);
+      if (dayName) names.add(dayName);
+    }
+    // Keep week order no matter how the codes were listed
+    return ALL_DAYS.filter(name => names.has(name));
+  }
+
+  /**
+   * The reverse of `_expandDayCodes`: use a group code when the days match one
+   * exactly, otherwise a plain list of day codes.
+   */
+  private _dayNamesToWeekdays(dayNames: string[]): string[] {
+    const sameDays = (group: string[]) =>
+      group.length === dayNames.length && group.every(name => dayNames.includes(name));
+
+    if (sameDays(ALL_DAYS)) return ['daily'];
+    if (sameDays(WORKDAYS)) return ['workday'];
+    if (sameDays(WEEKEND)) return ['weekend'];
+    return ALL_DAYS
+      .filter(name => dayNames.includes(name))
+      .map(name => this._mapDayNameToCode(name) as string);
+  }
+
+  /**
+   * The entities this card drives: `entities`, or the single legacy `entity`.
+   */
+  private get _targetEntities(): string[] {
+    if (this._config?.entities?.length) return this._config.entities;
+    return this._config?.entity ? [this._config.entity] : [];
+  }
+
+  /**
+   * A schedule's `actions` attribute split by timeslot. Schedules driving
+   * several entities list one action per entity for every timeslot, each
+   * built by that entity's own domain adapter.
+   */
+  private _actionGroups(attr: ScheduleAttributes): ScheduleActionAttribute[][] | null {
+    const timeslotStrs = attr.timeslots || [];
+    const actions = attr.actions || [];
+    const perSlot = timeslotStrs.length ? actions.length / timeslotStrs.length : 0;
+    if (!Number.isInteger(perSlot) || perSlot < 1) return null;
+    return timeslotStrs.map((_, i) => actions.slice(i * perSlot, (i + 1) * perSlot));
+  }
+
+  /**
+   * One action per timeslot: the first entity's. The others were built from
+   * the same on/value, so it's enough to read the slot back.
+   */
+  private _actionsPerTimeslot(attr: ScheduleAttributes): ScheduleActionAttribute[] | null {
+    return this._actionGroups(attr)?.map(group => group[0]) ?? null;
+  }
+
+  // Same entities as the card targets, in any order
+  private _drivesExactly(entities: string[]): boolean {
+    const targets = this._targetEntities;
+    return entities.length === targets.length && targets.every(entityId => entities.includes(entityId));
+  }
+
+  /**
+   * Parse every active `switch.schedule_*` that drives exactly our entities into card slots,
+   * counting those an override has switched off for today as active.
+   * Shared by the loader and the sync diff so both see HA the same way.
+   */
+  private _readExistingSchedules(): ExistingSchedule[] {
+    if (!this.hass || !this._config) return [];
+
+    const targetEntities = this._targetEntities;
+    if (!targetEntities.length) return [];
+
     // Grab all schedule entities that look like switch.schedule_*
     const scheduleStates = Object.values(this.hass.states).filter((s) =>
       s.entity_id.startsWith('switch.schedule_')
     );
-  
-    console.log('Found schedule states:', scheduleStates);
-  
+
+    const result: ExistingSchedule[] = [];
+    const unreadable: UnreadableSchedule[] = [];
+
     for (const stateObj of scheduleStates) {
-      const attr = stateObj.attributes as any;
-      const weekdays: string[] = attr.weekdays || [];
+      const attr = stateObj.attributes as ScheduleAttributes;
+      const weekdays = attr.weekdays || [];
       // `timeslots` is an array of strings like "HH:MM:SS - HH:MM:SS"
-      const timeslotStrs: string[] = attr.timeslots || [];
+      const timeslotStrs = attr.timeslots || [];
       // `actions` is a parallel array
-      const timeslotActions: Array<{ service: string; data?: any }> = attr.actions || [];
-  
-      const entities = attr.entities || [];
+      const timeslotActions = this._actionsPerTimeslot(attr);
+
+      // Only schedules driving exactly our entities: editing one that also drives
+      // others would rebuild its actions for ours alone and drop theirs
+      if (!this._drivesExactly(attr.entities || [])) {
+        continue;
+      }
 
-      // Skip schedules that don't apply to our target entity
-      if (!entities.includes(targetEntity)) {
+      // Date overrides aren't part of the week
+      if (this._isOverride(stateObj.entity_id, attr.tags)) {
         continue;
       }
 
-      // Skip if it's off or if timeslot count doesn't match action count
-      if (stateObj.state !== 'on') {
+      // Skip if it's off (unless an override switched it off) or if timeslot count doesn't match action count
+      if (stateObj.state !== 'on' && !this._pausedByOverride(stateObj.entity_id)) {
         continue;
       }
-      if (timeslotStrs.length !== timeslotActions.length) {
+      if (!timeslotActions) {
         console.warn(
           'Timeslot length does not match actions length for',
           stateObj.entity_id
         );
         continue;
       }
-  
-      for (const dayCode of weekdays) {
-        const dayName = this._mapDayCodeToName(dayCode);
-        if (!dayName) {
-          // skip unknown codes like "daily", "weekend", etc.
+
+      // "daily", "workday" and "weekend" expand to the days they stand for
+      const dayNames = this._expandDayCodes(weekdays);
+      if (!dayNames.length) continue;
+
+      // Let the adapter for each action's domain turn it back into on/value,
+      // e.g. "light.turn_on" + brightness_pct, "climate.set_temperature", ...
+      const parsedActions = timeslotActions.map(action => getDomainAdapter((action.service || '').split('.')[0])
+        .parseAction(action.service, action.data ?? action.service_data ?? {}));
+
+      // Leave a schedule with actions no adapter reads out whole: loaded without
+      // them, the next sync would edit them away
+      const unknown = timeslotActions.filter((_, i) => !parsedActions[i]).map(action => action.service);
+      if (unknown.length) {
+        console.warn('Unsupported actions, leaving schedule alone:', unknown, stateObj.entity_id);
+        unreadable.push({ entityId: stateObj.entity_id, services: [...new Set(unknown)] });
+        continue;
+      }
+
+      const localSlots: TimeSlot[] = [];
+
+      // Loop through each timeslot, parse the string into start/stop
+      for (let i = 0; i < timeslotStrs.length; i++) {
+        const slotStr = timeslotStrs[i]; // e.g. "00:00:00 - 09:00:00"
+        const parsed  = parsedActions[i] as SlotState;
+
+        const split = this._splitTimeslot(slotStr);
+        if (!split) {
+          console.warn('Invalid timeslot string:', slotStr);
           continue;
         }
-  
-        const localSlots: TimeSlot[] = [];
-  
-        // Loop through each timeslot, parse the string into start/stop
-        for (let i = 0; i < timeslotStrs.length; i++) {
-          const slotStr = timeslotStrs[i]; // e.g. "00:00:00 - 09:00:00"
-          const action  = timeslotActions[i];
-  
-          const [startStr, stopStr] = slotStr.split('-').map(s => s.trim());
-          if (!startStr || !stopStr) {
-            console.warn('Invalid timeslot string:', slotStr);
-            continue;
-          }
-  
-          // Convert "HH:MM:SS" to 10-min intervals
-          const startIntervals = this._parseTimeToIntervals(startStr);
-          const endIntervals   = this._parseTimeToIntervals(stopStr);
-  
-          if (endIntervals <= startIntervals) {
-            // skip invalid or zero-length
-            continue;
-          }
-  
-          // Determine on/off + temperature from the action
-          let on = false;
-          let value = 0;
-  
-          // e.g. service = "climate.set_hvac_mode" or "climate.set_temperature"
-          if (action.service === 'climate.set_hvac_mode') {
-            if (action.data?.hvac_mode === 'off') {
-              on = false;
-              value = 0;
-            } else if (action.data?.hvac_mode === 'heat') {
-              on = true;
-              value = action.data?.temperature ?? 20;
-            }
-          } else if (action.service === 'climate.set_temperature') {
-            on = true;
-            value = action.data?.temperature ?? 20;
-          }
-  
-          localSlots.push({
-            start: startIntervals,
-            end: endIntervals,
-            on,
-            value,
+
+        // Convert "HH:MM:SS" or "sunrise+00:30:00" to minutes
+        const startBoundary = this._parseBoundary(split[0]);
+        const endBoundary   = this._parseBoundary(split[1]);
+        const startMinutes = startBoundary.minutes;
+        // Ending at 00:00 means midnight; ending before the start runs past midnight
+        const endMinutes   = endBoundary.minutes || MINUTES_PER_DAY;
+
+        if (endMinutes === startMinutes) {
+          // skip zero-length
+          continue;
+        }
+
+        const conditions = this._scheduleConditions[stateObj.entity_id]?.[i];
+        localSlots.push({
+          start: startMinutes,
+          end: endMinutes,
+          ...parsed,
+          ...(startBoundary.sun ? { startSun: startBoundary.sun } : {}),
+          ...(endBoundary.sun ? { endSun: endBoundary.sun } : {}),
+          ...(conditions ? { conditions } : {}),
+        });
+      }
+
+      result.push({
+        entityId: stateObj.entity_id,
+        dayNames,
+        timeSlots: localSlots,
+        attributes: attr,
+      });
+    }
+
+    // Only reassign on a change, this runs while building every sync plan
+    if (unreadable.map(u => `${u.entityId}:${u.services}`).join() !==
+        this._unreadableSchedules.map(u => `${u.entityId}:${u.services}`).join()) {
+      this._unreadableSchedules = unreadable;
+    }
+    return result;
+  }
+
+  /**
+   * Merge parsed schedules into one sorted slot list per day name.
+   */
+  private _groupSlotsByDay(schedules: ExistingSchedule[]): Record<string, TimeSlot[]> {
+    const dayNameToSlots: Record<string, TimeSlot[]> = {
+      Monday: [],
+      Tuesday: [],
+      Wednesday: [],
+      Thursday: [],
+      Friday: [],
+      Saturday: [],
+      Sunday: [],
+    };
+
+    for (const schedule of schedules) {
+      for (const dayName of schedule.dayNames) {
+        dayNameToSlots[dayName].push(...schedule.timeSlots);
+      }
+    }
+    for (const dayName of Object.keys(dayNameToSlots)) {
+      dayNameToSlots[dayName].sort((a, b) => a.start - b.start);
+    }
+
+    return dayNameToSlots;
+  }
+
+  /**
+   * Fetch every schedule's timeslot conditions through the scheduler
+   * websocket API into `_scheduleConditions`, and collect our date overrides.
+   */
+  private async _fetchSchedulerDetails(): Promise<void> {
+    if (!this.hass) return;
+
+    try {
+      const items = await this.hass.callWS<SchedulerWSItem[]>({ type: 'scheduler' });
+      const byEntity: Record<string, Array<ConditionSet | undefined>> = {};
+      const overrides: ScheduleOverride[] = [];
+      // Schedules switching the week off and on, by the override they belong to
+      const switches: Record<string, SchedulerWSItem[]> = {};
+      for (const item of items || []) {
+        if (!item.entity_id) continue;
+        byEntity[item.entity_id] = (item.timeslots || []).map((ts): ConditionSet | undefined =>
+          ts.conditions?.length
+            ? { logic: ts.condition_type === 'or' ? 'or' : 'and', conditions: ts.conditions }
+            : undefined
+        );
+
+        const link = item.tags?.find(tag => tag.startsWith(OVERRIDE_SWITCH_TAG));
+        if (link) {
+          const of = link.slice(OVERRIDE_SWITCH_TAG.length);
+          switches[of] = [...(switches[of] ?? []), item];
+          continue;
+        }
+        if (item.start_date && item.end_date && this._drivesExactly(this._itemEntities(item))) {
+          overrides.push({
+            entityId: item.entity_id,
+            name: item.name || item.entity_id,
+            startDate: item.start_date,
+            endDate: item.end_date,
+            pauses: [],
+            timeSlots: this._overrideSlots(item),
           });
         }
-  
-        // Add all these slots to the dayName
-        dayNameToSlots[dayName].push(...localSlots);
       }
+      this._scheduleConditions = byEntity;
+      this._overrides = overrides
+        .map(override => {
+          const linked = switches[override.entityId] ?? [];
+          const doing = (service: string) => linked.find(item => item.timeslots?.[0]?.actions?.[0]?.service === service);
+          const pause = doing('switch.turn_off');
+          return {
+            ...override,
+            pauses: pause ? this._itemEntities(pause) : [],
+            pauseEntityId: pause?.entity_id ?? undefined,
+            resumeEntityId: doing('switch.turn_on')?.entity_id ?? undefined,
+          };
+        })
+        .sort((a, b) => a.startDate.localeCompare(b.startDate));
+    } catch (err) {
+      console.warn('Could not fetch schedule conditions:', err);
     }
-  
-    // Finally, convert dayNameToSlots into the array structure used by your card
-    this._days = Object.keys(dayNameToSlots).map((dayName) => ({
-      dayName,
-      timeSlots: dayNameToSlots[dayName],
-    }));
-  
+  }
+
+  // An override's timeslots as card slots, read through the first entity's actions
+  private _overrideSlots(item: SchedulerWSItem): TimeSlot[] {
+    const target = this._targetEntities[0];
+    return (item.timeslots || []).reduce<TimeSlot[]>((slots, ts) => {
+      const action = (ts.actions || []).find(a => a.entity_id === target) as ScheduleActionAttribute | undefined;
+      const state = action && getDomainAdapter(action.service.split('.')[0])
+        .parseAction(action.service, action.data ?? action.service_data ?? {});
+      if (!state) return slots;
+
+      const start = this._parseBoundary(ts.start).minutes;
+      const end = this._parseBoundary(ts.stop).minutes || MINUTES_PER_DAY;
+      const conditions: ConditionSet | undefined = ts.conditions?.length
+        ? { logic: ts.condition_type === 'or' ? 'or' : 'and', conditions: ts.conditions }
+        : undefined;
+      return [...slots, { start, end, ...state, ...(conditions ? { conditions } : {}) }];
+    }, []);
+  }
+
+  // Every entity a schedule's actions go to, once each
+  private _itemEntities(item: SchedulerWSItem): string[] {
+    const entities = (item.timeslots || []).reduce<string[]>(
+      (all, ts) => all.concat((ts.actions || []).map(a => a.entity_id)),
+      []
+    );
+    return [...new Set(entities)];
+  }
+
+  /**
+   * If every slot of a day has the same conditions, move them up to the day.
+   */
+  private _liftDayConditions(day: ApsleyDay): ApsleyDay {
+    const [first] = day.timeSlots;
+    if (!first?.conditions) return day;
+    if (!day.timeSlots.every(slot => this._conditionsEqual(slot.conditions, first.conditions))) return day;
+
+    return {
+      ...day,
+      conditions: first.conditions,
+      timeSlots: day.timeSlots.map(slot => {
+        const rest = { ...slot };
+        delete rest.conditions;
+        return rest;
+      }),
+    };
+  }
+
+  // Load existing schedules from HA state objects, parse them into minutes
+  private _loadExistingSchedulesFromHA(): void {
+    if (!this.hass || !this._targetEntities.length) return;
+
+    const schedules = this._readExistingSchedules();
+    console.log('Found schedules:', schedules);
+
+    const dayNameToSlots = this._groupSlotsByDay(schedules);
+
+    // Finally, convert dayNameToSlots into the array structure used by your card.
+    // Slots doing what the default does are the synced gap fills, not drawn slots.
+    this._days = Object.keys(dayNameToSlots).map((dayName) => {
+      const state = this._defaultStateFor({ dayName, timeSlots: [] });
+      return this._liftDayConditions({
+        dayName,
+        timeSlots: dayNameToSlots[dayName].filter(slot => !this._isDefaultSlot(slot, state)),
+      });
+    });
+
     console.log('Loaded schedules:', this._days);
   }
-  
-  
-  
 
   firstUpdated(_changedProperties: Map<string | number | symbol, unknown>): void {
     super.firstUpdated(_changedProperties);
     this._loadExistingSchedulesFromHA();
+    this._days = this._resolveSunTimes(this._days);
+    this._fetchHistory();
+
+    // Conditions and override dates come from the websocket API, reload once they're in,
+    // unless the user has started editing (every edit replaces the _days array)
+    const loaded = this._days;
+    this._fetchSchedulerDetails().then(() => {
+      if (this._days !== loaded) return;
+      if (!Object.keys(this._scheduleConditions).length && !this._overrides.length) return;
+      this._loadExistingSchedulesFromHA();
+      this._days = this._resolveSunTimes(this._days);
+    });
   }
 
   public setConfig(config: ApsleyCardConfig): void {
-    const copy = { ...config };
+    // Older configs stored slots as time_step intervals, convert them to minutes
+    const copy = migrateConfig({ ...config });
   
     // If days not defined, provide a default
     if (!copy.days || !Array.isArray(copy.days)) {
       copy.days = [
-        { dayName: 'Monday', timeSlots: [{ start: 48, end: 72, on: true, value: 20 }] },
+        { dayName: 'Monday', timeSlots: [{ start: 480, end: 720, on: true, value: 20 }] },
         { dayName: 'Tuesday', timeSlots: [] },
         { dayName: 'Wednesday', timeSlots: [] },
         { dayName: 'Thursday', timeSlots: [] },
@@ -247,8 +708,15 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
       copy.selection_timeout = 25000; // 25 seconds
     }
 
+    // Overlay just switched on, load it rather than waiting for the clock
+    const historyTurnedOn = copy.show_history && !this._config?.show_history;
+
     this._config = copy;
     this._days = copy.days;
+    if (historyTurnedOn && this.hass) this._fetchHistory();
+    // A new config replaces the days wholesale, older snapshots no longer apply
+    this._undoStack = [];
+    this._redoStack = [];
   }
 
   public getCardSize(): number {
@@ -263,11 +731,50 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
     return { type: 'custom:apsley-scheduler-card', name: 'Scheduler Card' };
   }
 
+  // Sync button only opens the preview; nothing is sent until it's confirmed
   private async _onSyncClick(): Promise<void> {
     if (!this.hass) return;
-  
+    // Conditions and overrides may have changed outside the card since load
+    await this._fetchSchedulerDetails();
+    this._syncPreview = this._buildSyncPlan();
+    this._syncPreviewStale = false;
+  }
+
+  private _onSyncCancel(): void {
+    this._syncPreview = null;
+    this._syncPreviewStale = false;
+  }
+
+  // What a plan would send, leaving out the rollback snapshots (their attributes tick over on their own)
+  private _planKey(plan: SyncOperation[]): string {
+    return JSON.stringify(plan.map(({ type, dayNames, entityId, data }) => ({ type, dayNames, entityId, data })));
+  }
+
+  /**
+   * Sync what the preview shows. The week can still be edited (or change in
+   * HA) while the preview is open, so the plan is rebuilt first; if it no
+   * longer matches, the preview shows the new one to confirm instead.
+   */
+  private async _onSyncConfirm(): Promise<void> {
+    if (!this.hass || !this._syncPreview) return;
+
+    const plan = this._buildSyncPlan();
+    if (this._planKey(plan) !== this._planKey(this._syncPreview)) {
+      this._syncPreview = plan;
+      this._syncPreviewStale = true;
+      return;
+    }
+    this._syncPreview = null;
+    this._syncPreviewStale = false;
+    this._syncResults = null;
+
     try {
-      await this._syncSchedules();
+      const results = await this._syncSchedules(plan);
+      this._syncResults = results;
+      if (results.some(result => result.status === 'failed')) {
+        console.warn('Some days failed to sync:', results.filter(result => result.status === 'failed'));
+        return;
+      }
       this._isSynced = true;
       console.log('Schedules synced successfully.');
     } catch (err) {
@@ -278,264 +785,1805 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
       }, 3000);
     }
   }
-  private _toggleShowTodayOnly(): void {
-    if (!this._config) return;
-  
-    // Toggle the `show_today_only` option
-    this._config = {
-      ...this._config,
-      show_today_only: !this._config.show_today_only,
-    };
-  
-    // Trigger re-render
-    this.requestUpdate();
-  
-    // Fire a config-changed event to notify the parent of the change
-    fireEvent(this, 'config-changed', { config: this._config });
-  }
-  protected render(): TemplateResult {
-    if (!this._config) {
-      return html`<ha-card>Configuration missing!</ha-card>`;
+
+  // Re-run sync for one failed day only, replacing its row in the result panel
+  private async _onSyncRetry(dayName: string): Promise<void> {
+    if (!this.hass) return;
+
+    const plan = this._buildSyncPlan([dayName]);
+    const retried = await this._syncSchedules(plan);
+
+    this._syncResults = (this._syncResults ?? []).map(result =>
+      retried.find(r => r.dayName === result.dayName && r.status !== 'unchanged') ?? result
+    );
+    // Nothing left to do for the day means HA already matches it
+    if (!plan.length) {
+      this._syncResults = this._syncResults.map(result =>
+        result.dayName === dayName ? { ...result, status: 'unchanged', error: undefined } : result
+      );
     }
-  
-    const cardTitle = this._config.entity
-      ? `${this._config.name || 'Scheduler'}`
-      : this._config.name || 'Scheduler';
-  
-    const today = new Date().toLocaleDateString('en-US', { weekday: 'long' });
-  
-    return html`
-      <ha-card>
-        <!-- Header with sync button -->
-        <div class="header">
-          <span>${cardTitle}</span>
-          <div>
-          <button
-            outlined
-            class="toggle-today-button"
-            @click=${this._toggleShowTodayOnly}
-          >${this._config?.show_today_only ? 'Show week' : 'Show today'}</button>
-          <button
-            class="sync-button ${this._isSynced ? 'synced' : ''}"
-            @click=${this._onSyncClick}
-          >
-            Sync
-          </button>
-          </div>
+  }
+
+  private _onSyncResultsClose(): void {
+    this._syncResults = null;
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Undo / redo
+  // ────────────────────────────────────────────────────────────────────────────
+  /**
+   * Snapshot `_days` before an edit. Calls with the same `key` as the
+   * previous one are part of the same step and aren't recorded again.
+   */
+  private _recordHistory(key?: string): void {
+    if (key && key === this._historyKey) return;
+    this._historyKey = key ?? null;
+    this._undoStack = [...this._undoStack, this._days].slice(-HISTORY_LIMIT);
+    this._redoStack = [];
+  }
+
+  // Close the current step, so the next drag or slider move is its own step
+  private _endHistoryStep(): void {
+    this._historyKey = null;
+  }
+
+  private _undo(): void {
+    const previous = this._undoStack[this._undoStack.length - 1];
+    if (!previous) return;
+    this._undoStack = this._undoStack.slice(0, -1);
+    this._redoStack = [...this._redoStack, this._days];
+    this._restoreDays(previous);
+  }
+
+  private _redo(): void {
+    const next = this._redoStack[this._redoStack.length - 1];
+    if (!next) return;
+    this._redoStack = this._redoStack.slice(0, -1);
+    this._undoStack = [...this._undoStack, this._days];
+    this._restoreDays(next);
+  }
+
+  private _restoreDays(days: ApsleyDay[]): void {
+    this._endHistoryStep();
+    this._days = days;
+    // The selected slot may not exist in the restored days
+    const day = this._selectedDayIndex !== null ? days[this._selectedDayIndex] : undefined;
+    if (!day || this._selectedSlotIndex === null || !day.timeSlots[this._selectedSlotIndex]) {
+      this._selectedDayIndex = null;
+      this._selectedSlotIndex = null;
+    }
+    this._multiSelection = [];
+  }
+
+  private _onKeyDown(e: KeyboardEvent): void {
+    // Leave text fields their own undo
+    const target = e.composedPath()[0] as HTMLElement | undefined;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA')) {
+      return;
+    }
+    if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+    e.preventDefault();
+    if (e.shiftKey) {
+      this._redo();
+    } else {
+      this._undo();
+    }
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Profiles
+  // ────────────────────────────────────────────────────────────────────────────
+  // Profiles live in the card config, created and edited in the card editor
+  private get _profiles(): ScheduleProfile[] {
+    return this._config?.profiles ?? [];
+  }
+
+  /**
+   * Replace the week with a saved profile (one undo step), and sync it right
+   * away if `sync_on_profile_select` is set.
+   */
+  private async _loadProfile(name: string): Promise<void> {
+    const profile = this._profiles.find(p => p.name === name);
+    if (!profile) return;
+
+    // Profiles may leave out empty days, the card always shows the whole week
+    const days = ALL_DAYS.map(dayName =>
+      profile.days.find(day => day.dayName === dayName) ?? { dayName, timeSlots: [] }
+    );
+
+    this._recordHistory();
+    this._days = this._resolveSunTimes(days);
+    this._activeProfile = name;
+    this._selectedDayIndex = null;
+    this._selectedSlotIndex = null;
+    this._multiSelection = [];
+
+    if (this._config?.sync_on_profile_select && this.hass) {
+      await this._fetchSchedulerDetails();
+      this._syncPreview = null;
+      this._syncResults = await this._syncSchedules();
+    }
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Import / export
+  // ────────────────────────────────────────────────────────────────────────────
+  private _openTransfer(): void {
+    this._importText = '';
+    this._importErrors = [];
+    this._importWarning = '';
+  }
+
+  private _closeTransfer(): void {
+    this._importText = null;
+    this._importErrors = [];
+    this._importWarning = '';
+  }
+
+  // Download the week as a file, named after the card
+  private _exportDays(format: ExportFormat): void {
+    const schedule = exportSchedule(this._days, this._targetEntities, this._adapter.domain);
+    const text = serializeSchedule(schedule, format);
+    const blob = new Blob([text], { type: format === 'yaml' ? 'text/yaml' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(this._config?.name || 'schedule').replace(/\W+/g, '_').toLowerCase()}.${format}`;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  // Put a picked file's contents in the import box, so it's imported like pasted text
+  private async _onImportFile(e: Event): Promise<void> {
+    const input = e.currentTarget as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    this._importText = await file.text();
+    this._importErrors = [];
+    this._importWarning = '';
+    input.value = '';
+  }
+
+  private _importDays(): void {
+    let result: ReturnType<typeof importSchedule>;
+    try {
+      result = importSchedule(this._importText ?? '');
+    } catch (err) {
+      // The importer reports what it finds wrong; anything it throws is a file it didn't foresee
+      console.error('Import failed:', err);
+      this._importErrors = [`Could not read the file: ${(err as Error)?.message ?? err}`];
+      return;
+    }
+    const { schedule, days, errors } = result;
+    if (!days) {
+      this._importErrors = errors;
+      return;
+    }
+
+    const targets = this._targetEntities;
+    const domain = this._adapter.domain;
+    // Same entities in any order
+    const otherEntities = !!schedule?.entities?.length &&
+      [...schedule.entities].sort().join() !== [...targets].sort().join();
+    const otherDomain = !!schedule?.domain && schedule.domain !== domain;
+    if ((otherEntities || otherDomain) && !this._importWarning) {
+      this._importWarning = otherDomain
+        ? `This file was made for ${schedule?.domain} entities, not ${domain}; values may not mean the same.`
+        : `This file was made for ${schedule?.entities.join(', ')}, not ${targets.join(', ')}.`;
+      return;
+    }
+
+    this._recordHistory();
+    this._days = this._resolveSunTimes(days);
+    this._selectedDayIndex = null;
+    this._selectedSlotIndex = null;
+    this._multiSelection = [];
+    this._closeTransfer();
+  }
+
+  private _renderTransferPanel(): TemplateResult {
+    if (this._importText === null) return html``;
+
+    return html`
+      <div class="options-panel">
+        <div class="option-row">
+          <span class="day-display">Import / export</span>
         </div>
-  
-        <!-- Warning if no entity is configured -->
-        ${!this._config.entity
+        <div class="option-row">
+          <span>Export:</span>
+          <mwc-button dense .label=${'JSON'} @click=${() => this._exportDays('json')}></mwc-button>
+          <mwc-button dense .label=${'YAML'} @click=${() => this._exportDays('yaml')}></mwc-button>
+        </div>
+
+        <div class="option-row">
+          <span>Import:</span>
+          <input type="file" accept=".json,.yaml,.yml,application/json,text/yaml" @change=${this._onImportFile} />
+        </div>
+        <textarea
+          class="import-text"
+          rows="6"
+          placeholder="…or paste JSON / YAML here"
+          .value=${this._importText}
+          @input=${(e: Event) => {
+            this._importText = (e.currentTarget as HTMLTextAreaElement).value;
+            this._importErrors = [];
+            this._importWarning = '';
+          }}
+        ></textarea>
+        ${this._importErrors.length
           ? html`
-              <div class="warning">
-                <strong>Warning:</strong> No entity configured. Please edit this card and select an entity.
+              <div class="import-errors">
+                ${this._importErrors.map(error => html`<div>${error}</div>`)}
               </div>
             `
           : null}
-  
-        <!-- Main content of the card -->
-        <div
-          class="days-container ${this._config?.show_today_only ? 'show-today-only' : ''}"
-        >
-          ${this._days.map((day, dayIndex) => this._renderDayRow(day, dayIndex, today))}
+        ${this._importWarning
+          ? html`<div class="import-warning">${this._importWarning}</div>`
+          : null}
+
+        <div class="option-row">
+          <mwc-button outlined .label=${'Close'} @click=${this._closeTransfer}></mwc-button>
+          <mwc-button
+            unelevated
+            .label=${this._importWarning ? 'Replace week anyway' : 'Replace week'}
+            ?disabled=${!this._importText.trim()}
+            @click=${this._importDays}
+          ></mwc-button>
         </div>
-        ${this._renderOptionsPanel()}
-      </ha-card>
+      </div>
     `;
   }
-  
-  private getEntityDomain(entityId: string): string {
-    // e.g. "light.living_room_lamp" => "light"
-    const [domain] = entityId.split('.');
-    return domain;
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Date overrides
+  // ────────────────────────────────────────────────────────────────────────────
+  // Tagged by the card, or found with dates by the websocket fetch
+  private _isOverride(entityId: string, tags?: string[]): boolean {
+    return !!tags?.includes(OVERRIDE_TAG) || this._overrides.some(o => o.entityId === entityId);
   }
 
-  private _buildSlotActions(entityId: string, slot: TimeSlot) {
-    const domain = this.getEntityDomain(entityId);
-    const isOff = !slot.on;
-  
-    let service = '';
-    let serviceData: any = {};
-  
-    if (domain === 'switch') {
-      // Switch domain only supports on/off
-      service = isOff ? 'switch.turn_off' : 'switch.turn_on';
-      serviceData = {};
-  
-    } else if (domain === 'light') {
-      if (isOff) {
-        service = 'light.turn_off';
-        serviceData = {};
-      } else {
-        // Turn on
-        service = 'light.turn_on';
-        // if you want to use `slot.value` as brightness:
-        //   0 = just "on", >0 = brightness_pct
-        if (slot.value > 0) {
-          serviceData = { brightness_pct: slot.value };
-        } else {
-          serviceData = {};
+  // Today in HA's time zone as YYYY-MM-DD, the format the scheduler uses for start/end dates
+  private _today(): string {
+    return this._zonedParts(new Date()).date;
+  }
+
+  // A YYYY-MM-DD date `days` later (or earlier)
+  private _addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+  }
+
+  // Date of `dayName` in the current Monday–Sunday week, in HA's time zone
+  private _dateThisWeek(dayName: string): string {
+    const now = this._zonedParts(new Date());
+    return this._addDays(now.date, ALL_DAYS.indexOf(dayName) - ALL_DAYS.indexOf(now.dayName));
+  }
+
+  private _overrideOn(date: string): ScheduleOverride | undefined {
+    return this._overrides.find(o => o.startDate <= date && date <= o.endDate);
+  }
+
+  // A weekly schedule switched off by an override running today is still part of the week
+  private _pausedByOverride(entityId: string): boolean {
+    return !!this._overrideOn(this._today())?.pauses.includes(entityId);
+  }
+
+  // e.g. "20 Dec"
+  private _formatDate(date: string): string {
+    return new Date(`${date}T00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+  }
+
+  private _openOverride(): void {
+    const today = this._today();
+    this._overrideDraft = {
+      name: '',
+      startDate: today,
+      endDate: today,
+      source: this._adapter.modes.includes('off') ? 'off' : this._days[0]?.dayName ?? '',
+    };
+    this._overrideError = '';
+  }
+
+  private _closeOverride(): void {
+    this._overrideDraft = null;
+    this._overrideError = '';
+  }
+
+  /**
+   * Create the drafted override as its own scheduler entity, running every
+   * day from its start to its end date. It covers the whole day, either
+   * off throughout or with a copy of one of the week's days. The scheduler
+   * has no priorities, so the weekly schedules are switched off for the
+   * period (see `_addOverrideSwitches`).
+   */
+  private async _addOverride(): Promise<void> {
+    const draft = this._overrideDraft;
+    const entityIds = this._targetEntities;
+    if (!draft || !this.hass || !entityIds.length) return;
+
+    const name = draft.name.trim();
+    if (!name || !draft.startDate || !draft.endDate) {
+      this._overrideError = 'Give the override a name and both dates';
+      return;
+    }
+    if (draft.endDate < draft.startDate) {
+      this._overrideError = 'The end date is before the start date';
+      return;
+    }
+
+    const dayIndex = this._days.findIndex(day => day.dayName === draft.source);
+    const slots: TimeSlot[] = dayIndex === -1
+      ? [{ start: 0, end: MINUTES_PER_DAY, on: false, value: 0 }]
+      : this._effectiveSlots(this._days[dayIndex], dayIndex);
+    if (!slots.length) {
+      this._overrideError = `${draft.source} has no timeslots to copy`;
+      return;
+    }
+
+    let added = false;
+    let created: string | undefined;
+    try {
+      const pauses = await this._weeklyScheduleIds();
+      created = await this._callSchedulerService({
+        type: 'add',
+        dayNames: ALL_DAYS,
+        data: {
+          name,
+          weekdays: ['daily'],
+          timeslots: this._buildTimeslots(entityIds, slots),
+          repeat_type: 'repeat',
+          tags: [OVERRIDE_TAG],
+          start_date: draft.startDate,
+          end_date: draft.endDate,
+        },
+      });
+      added = true;
+      if (!created) throw new Error('The new override could not be found to switch the week off around it');
+      const override: ScheduleOverride = {
+        entityId: created,
+        name,
+        startDate: draft.startDate,
+        endDate: draft.endDate,
+        pauses,
+        timeSlots: slots,
+      };
+      await this._addOverrideSwitches(override, pauses);
+    } catch (err) {
+      console.error('Failed to add override:', err);
+      this._overrideError = (err as Error)?.message ?? String(err);
+      // An override the week runs straight through would only mislead, take it out again
+      if (added) {
+        const entityId = created ?? await this._findOverrideSchedule(name, draft.startDate, draft.endDate);
+        const removed = !!entityId && await this._callSchedulerService({ type: 'remove', dayNames: ALL_DAYS, entityId })
+          .then(() => true, removeErr => {
+            console.error(`Failed to remove override ${entityId}:`, removeErr);
+            return false;
+          });
+        if (!removed) {
+          this._overrideError += `. "${name}" was still added to the scheduler, remove it there.`;
         }
       }
-  
-    } else if (domain === 'climate') {
-      // e.g. your original climate logic
-      if (isOff) {
-        service = 'climate.set_hvac_mode';
-        serviceData = { hvac_mode: 'off' };
-      } else {
-        // "value" is a temperature
-        service = 'climate.set_temperature';
-        serviceData = { hvac_mode: 'heat', temperature: slot.value };
-      }
-  
-    } else {
-      // fallback domain
-      // You could default to on/off if you like:
-      service = isOff ? `${domain}.turn_off` : `${domain}.turn_on`;
+      await this._fetchSchedulerDetails();
+      return;
     }
-  
+
+    this._closeOverride();
+    await this._fetchSchedulerDetails();
+  }
+
+  // Entity of an override by what it was added with, for when the id snapshot couldn't spot it
+  private async _findOverrideSchedule(name: string, startDate: string, endDate: string): Promise<string | undefined> {
+    if (!this.hass) return undefined;
+    try {
+      const items = await this.hass.callWS<SchedulerWSItem[]>({ type: 'scheduler' });
+      const item = (items || []).find(i => i.entity_id && i.tags?.includes(OVERRIDE_TAG) && i.name === name
+        && i.start_date === startDate && i.end_date === endDate
+        // Not an identical one that was already there
+        && !this._overrides.some(o => o.entityId === i.entity_id));
+      return item?.entity_id ?? undefined;
+    } catch (err) {
+      console.warn('Could not list schedules:', err);
+      return undefined;
+    }
+  }
+
+  /**
+   * Entities of the week's schedules: the enabled ones driving exactly our
+   * entities, plus those in `keep` (already switched off by an override) that
+   * still exist.
+   */
+  private async _weeklyScheduleIds(keep: string[] = []): Promise<string[]> {
+    if (!this.hass) return [];
+    const items = await this.hass.callWS<SchedulerWSItem[]>({ type: 'scheduler' });
+    return (items || [])
+      .filter(item => item.entity_id && !this._isOverride(item.entity_id, item.tags))
+      .filter(item => keep.includes(item.entity_id as string)
+        || (item.enabled !== false && this._drivesExactly(this._itemEntities(item))))
+      .map(item => item.entity_id as string);
+  }
+
+  // Scheduler timeslot switching schedules off or on at midnight
+  private _switchTimeslot(entityIds: string[], service: 'switch.turn_off' | 'switch.turn_on'): SchedulerTimeslot[] {
     return [{
-      entity_id: entityId,
-      service,
-      service_data: serviceData,
+      start: '00:00:00',
+      stop: '00:01:00',
+      actions: entityIds.map(entity_id => ({ entity_id, service, service_data: {} })),
     }];
   }
-  
 
   /**
-   * Example: create a new schedule entity for each day that has timeslots
-   * Convert intervals -> "HH:MM" for start times; default end is implied or
-   * you might create multiple timeslots in the service call.
+   * Switch `pauses` off at midnight on every day of the override, and back on
+   * at midnight the day after it ends, with two schedules of their own linked
+   * to the override by tag. The second one deletes itself once it has run.
    */
-  private async _syncSchedules(): Promise<void> {
-    if (!this.hass || !this._config?.entity) return;
-  
-    const entityId = this._config.entity;
-    if (!entityId) {
-      console.error('No entity configured in _config.');
-      return;
+  private async _addOverrideSwitches(override: ScheduleOverride, pauses: string[]): Promise<void> {
+    if (!pauses.length) return;
+    const tags = [OVERRIDE_TAG, `${OVERRIDE_SWITCH_TAG}${override.entityId}`];
+
+    const pause = await this._callSchedulerService({
+      type: 'add',
+      dayNames: ALL_DAYS,
+      data: {
+        name: `${override.name} (week off)`,
+        weekdays: ['daily'],
+        timeslots: this._switchTimeslot(pauses, 'switch.turn_off'),
+        repeat_type: 'repeat',
+        tags,
+        start_date: override.startDate,
+        end_date: override.endDate,
+      },
+    });
+    try {
+      const resumeDate = this._addDays(override.endDate, 1);
+      await this._callSchedulerService({
+        type: 'add',
+        dayNames: ALL_DAYS,
+        data: {
+          name: `${override.name} (week on)`,
+          weekdays: ['daily'],
+          timeslots: this._switchTimeslot(pauses, 'switch.turn_on'),
+          repeat_type: 'single',
+          tags,
+          start_date: resumeDate,
+          end_date: resumeDate,
+        },
+      });
+    } catch (err) {
+      if (pause) await this._callSchedulerService({ type: 'remove', dayNames: ALL_DAYS, entityId: pause });
+      throw err;
     }
-  
-    // e.g. "light", "switch", "climate", ...
-    const domain = this.getEntityDomain(entityId);
-  
-    // For mapping "Monday" -> ["mon"], etc.
-    const dayToWeekday: Record<string, string[]> = {
-      Monday:    ['mon'],
-      Tuesday:   ['tue'],
-      Wednesday: ['wed'],
-      Thursday:  ['thu'],
-      Friday:    ['fri'],
-      Saturday:  ['sat'],
-      Sunday:    ['sun'],
-    };
-  
-    // 1) Get all existing scheduler entities
-    const allSchedules = Object.values(this.hass.states).filter((s) =>
-      s.entity_id.startsWith('switch.schedule_')
-    );
-  
-    for (const day of this._days) {
-      if (!day.timeSlots.length) continue;  // skip empty
-  
-      const dayCodes = dayToWeekday[day.dayName] || [];
-      if (!dayCodes.length) continue;
-  
-      // 2) Remove existing schedules for this day & entity
-      for (const stateObj of allSchedules) {
-        const attr = stateObj.attributes as any;
-        const weekdays: string[] = attr.weekdays || [];
-        const entities: string[] = attr.entities || [];
-        const isOn = stateObj.state === 'on';
-  
-        if (entities.includes(entityId) && dayCodes.some(dc => weekdays.includes(dc)) && isOn) {
-          try {
-            await this.hass.callService('scheduler', 'remove', {
-              entity_id: stateObj.entity_id,
-            });
-            console.log('Removed existing schedule:', stateObj.entity_id);
-          } catch (err) {
-            console.error('Failed to remove existing schedule:', stateObj.entity_id, err);
+
+    // Midnight has passed for an override starting today
+    if (override.startDate <= this._today()) {
+      await this.hass?.callService('switch', 'turn_off', { entity_id: pauses });
+    }
+  }
+
+  /**
+   * After a sync, point overrides that haven't ended at the week's current
+   * schedules: syncing replaces some of them, and the new ones would run
+   * straight through an override.
+   */
+  private async _relinkOverrides(): Promise<void> {
+    if (!this.hass) return;
+    await this._fetchSchedulerDetails();
+    const today = this._today();
+
+    for (const override of this._overrides.filter(o => o.endDate >= today)) {
+      try {
+        const pauses = await this._weeklyScheduleIds(override.pauses);
+        const added = pauses.filter(id => !override.pauses.includes(id));
+        if (!added.length && pauses.length === override.pauses.length) continue;
+
+        // No week left to switch, and a switch action needs an entity
+        if (!pauses.length) {
+          for (const entityId of [override.pauseEntityId, override.resumeEntityId]) {
+            if (entityId) await this._callSchedulerService({ type: 'remove', dayNames: ALL_DAYS, entityId });
           }
+          continue;
         }
-      }
-  
-      // 3) Build timeslots array
-      const timeslots = day.timeSlots.map(slot => {
-        const start = this._formatIntervals(slot.start) + ':00';
-        let stop   = this._formatIntervals(slot.end)   + ':00';
-        if (stop === '24:00:00') {
-          stop = '23:59:59';
+        if (!override.pauseEntityId) {
+          await this._addOverrideSwitches(override, pauses);
+          continue;
         }
-  
-        const actions = this._buildSlotActions(entityId, slot);
-        return { start, stop, actions };
-      });
-  
-      // 4) Add new schedule
-      try {
-        await this.hass.callService('scheduler', 'add', {
-          name: `${day.dayName} schedule (${entityId})`,
-          weekdays: dayCodes,
-          timeslots,
-          repeat_type: 'repeat',
-          tags: [],
+        await this.hass.callService('scheduler', 'edit', {
+          entity_id: override.pauseEntityId,
+          timeslots: this._switchTimeslot(pauses, 'switch.turn_off'),
         });
-        console.log(`Created schedule for ${day.dayName}.`);
+        if (override.resumeEntityId) {
+          await this.hass.callService('scheduler', 'edit', {
+            entity_id: override.resumeEntityId,
+            timeslots: this._switchTimeslot(pauses, 'switch.turn_on'),
+          });
+        }
+        if (added.length && override.startDate <= today) {
+          await this.hass.callService('switch', 'turn_off', { entity_id: added });
+        }
       } catch (err) {
-        console.error(`Failed to add schedule for ${day.dayName}:`, err);
+        console.error(`Failed to switch the new weekly schedules off for override ${override.name}:`, err);
       }
     }
-  
-    console.log('Finished creating schedules via scheduler.add()');
+    await this._fetchSchedulerDetails();
   }
-  
-  
-  
 
-  private _renderDayRow(
-    day: { dayName: string; timeSlots: TimeSlot[] },
-    dayIndex: number,
-    today: string
-  ): TemplateResult {
-    const isToday = day.dayName === today;
+  // Remove the override and its switching schedules, and turn the week back on if it was running
+  private async _removeOverride(override: ScheduleOverride): Promise<void> {
+    if (!this.hass) return;
+    const schedules = [override.entityId, override.pauseEntityId, override.resumeEntityId]
+      .filter((id): id is string => !!id);
+    try {
+      for (const entityId of schedules) {
+        await this._callSchedulerService({ type: 'remove', dayNames: ALL_DAYS, entityId });
+      }
+      const today = this._today();
+      const paused = override.pauses.filter(id => this.hass?.states[id]);
+      if (override.startDate <= today && today <= override.endDate && paused.length) {
+        await this.hass.callService('switch', 'turn_on', { entity_id: paused });
+      }
+    } catch (err) {
+      console.error(`Failed to remove override ${override.entityId}:`, err);
+      await this._fetchSchedulerDetails();
+      return;
+    }
+    this._overrides = this._overrides.filter(o => o !== override);
+  }
+
+  // Overrides that haven't ended yet, soonest first
+  private _renderOverrideList(): TemplateResult {
+    const today = this._today();
+    const upcoming = this._overrides.filter(o => o.endDate >= today);
+    if (!upcoming.length) return html``;
+
     return html`
-      <div class="day-row ${isToday ? 'current-day' : ''}">
-        <div class="day-label">${day.dayName.substring(0, 2)}</div>
-        <div class="track-container">
-          <div
-            class="track"
-            @click=${(e: MouseEvent) => this._onTrackClick(e, dayIndex)}
+      <div class="override-list">
+        <div class="override-list-title">Upcoming overrides</div>
+        ${upcoming.map(o => html`
+          <div class="override-item ${o.startDate <= today ? 'active' : ''}">
+            <span class="override-dates">
+              ${o.startDate === o.endDate
+                ? this._formatDate(o.startDate)
+                : `${this._formatDate(o.startDate)} – ${this._formatDate(o.endDate)}`}
+            </span>
+            <span class="override-name">${o.name}</span>
+            <button class="day-action" title="Remove ${o.name}" @click=${() => this._removeOverride(o)}>✕</button>
+          </div>
+        `)}
+      </div>
+    `;
+  }
+
+  private _renderOverridePanel(): TemplateResult {
+    const draft = this._overrideDraft;
+    if (!draft) return html``;
+    const update = (changes: Partial<typeof draft>) => {
+      this._overrideDraft = { ...draft, ...changes };
+      this._overrideError = '';
+    };
+
+    return html`
+      <div class="options-panel">
+        <div class="option-row">
+          <span class="day-display">Add date override</span>
+        </div>
+        <div class="option-row">
+          <input
+            class="profile-name"
+            placeholder="Name, e.g. Christmas"
+            .value=${draft.name}
+            @input=${(e: Event) => update({ name: (e.currentTarget as HTMLInputElement).value })}
+          />
+        </div>
+        <div class="option-row">
+          <span>From</span>
+          <input
+            type="date"
+            .value=${draft.startDate}
+            @change=${(e: Event) => update({ startDate: (e.currentTarget as HTMLInputElement).value })}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            .value=${draft.endDate}
+            @change=${(e: Event) => update({ endDate: (e.currentTarget as HTMLInputElement).value })}
+          />
+        </div>
+        <div class="option-row">
+          <span>Every day:</span>
+          <select
+            .value=${draft.source}
+            @change=${(e: Event) => update({ source: (e.currentTarget as HTMLSelectElement).value })}
           >
-            ${day.timeSlots.map((slot, slotIndex) => {
-              const leftFrac = slot.start / this.maxIntervals;
-              const widthFrac = (slot.end - slot.start) / this.maxIntervals;
-              const left = leftFrac * 100;
-              const width = widthFrac * 100;
-  
-              const isSelected =
-                dayIndex === this._selectedDayIndex &&
-                slotIndex === this._selectedSlotIndex;
-  
-              // Decide how to label the timeslot
-              let displayText: string;
-              if (!slot.on) {
-                displayText = 'Off';
-              } else {
-                // slot.on === true
-                displayText = (slot.value > 0) ? String(slot.value) : 'On';
-              }
+            ${this._adapter.modes.includes('off')
+              ? html`<option value="off" ?selected=${draft.source === 'off'}>Off all day</option>`
+              : null}
+            ${this._days.map(day => html`
+              <option value=${day.dayName} ?selected=${draft.source === day.dayName}>Like ${day.dayName}</option>
+            `)}
+          </select>
+        </div>
+        ${this._overrideError ? html`<div class="import-errors">${this._overrideError}</div>` : null}
+        <div class="option-row">
+          <mwc-button outlined .label=${'Cancel'} @click=${this._closeOverride}></mwc-button>
+          <mwc-button unelevated .label=${'Add'} @click=${this._addOverride}></mwc-button>
+        </div>
+      </div>
+    `;
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Now
+  // ────────────────────────────────────────────────────────────────────────────
+  private _onClockTick(): void {
+    this.requestUpdate();
+    if (this._config?.show_history && Date.now() - this._historyFetchedAt > HISTORY_REFRESH_MS) {
+      this._fetchHistory();
+    }
+  }
+
+  // Building a formatter is slow and the history overlay needs thousands of
+  // conversions, so keep one until the time zone changes
+  private _zonedFormatter: { timeZone?: string; format: Intl.DateTimeFormat } | null = null;
+
+  private _zonedFormat(): Intl.DateTimeFormat {
+    const timeZone = this.hass?.config?.time_zone;
+    if (!this._zonedFormatter || this._zonedFormatter.timeZone !== timeZone) {
+      this._zonedFormatter = {
+        timeZone,
+        format: new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          year: 'numeric',
+          month: '2-digit',
+          day: '2-digit',
+          weekday: 'long',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric',
+          hour12: false,
+        }),
+      };
+    }
+    return this._zonedFormatter.format;
+  }
+
+  // Date, day and time of `date` in HA's time zone, which needn't be the browser's
+  private _zonedParts(date: Date): { date: string; dayName: string; minutes: number; seconds: number } {
+    const parts = this._zonedFormat().formatToParts(date);
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+    return {
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+      dayName: part('weekday'),
+      // Some browsers call midnight "24" with hour12 off
+      minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute')),
+      seconds: Number(part('second')),
+    };
+  }
+
+  private _serverNow(): { dayName: string; minutes: number } {
+    return this._zonedParts(new Date());
+  }
+
+  // e.g. "21 °C", "On", "Off"
+  private _describeState(slot: TimeSlot): string {
+    const mode = getSlotMode(this._adapter, slot);
+    if (mode === 'off') return 'Off';
+    if (mode === 'on') return 'On';
+    return `${slot.value} ${this._adapter.unit ?? ''}`.trim();
+  }
+
+  /**
+   * "Now: 21 °C until 17:00, then Off". Works on the slots as they will be
+   * synced, default-state gaps included, counting minutes from today's
+   * midnight through the next week. Neighbours doing the same thing count
+   * as one stretch. Null when nothing is scheduled at all.
+   */
+  private _nowSummary(now: { dayName: string; minutes: number }): string | null {
+    const todayIndex = ALL_DAYS.indexOf(now.dayName);
+    if (todayIndex === -1) return null;
+
+    // Yesterday too, for a slot running on past midnight into this morning
+    const segments: { start: number; end: number; slot: TimeSlot }[] = [];
+    for (let offset = -1; offset <= ALL_DAYS.length; offset++) {
+      const dayName = ALL_DAYS[(todayIndex + offset + ALL_DAYS.length) % ALL_DAYS.length];
+      const dayIndex = this._days.findIndex(day => day.dayName === dayName);
+      if (dayIndex === -1) continue;
+      for (const slot of this._effectiveSlots(this._days[dayIndex], dayIndex)) {
+        const base = offset * MINUTES_PER_DAY;
+        segments.push({ start: base + slot.start, end: base + this._extendedEnd(slot.start, slot.end), slot });
+      }
+    }
+    const at = (minute: number) => segments.find(segment => segment.start <= minute && minute < segment.end);
+
+    const current = at(now.minutes);
+    const label = current ? this._describeState(current.slot) : 'nothing scheduled';
+    let changeAt = current
+      ? current.end
+      : Math.min(...segments.filter(segment => segment.start > now.minutes).map(segment => segment.start));
+    if (!Number.isFinite(changeAt)) return current ? `Now: ${label}` : null;
+
+    let next = at(changeAt);
+    while (next && this._describeState(next.slot) === label) {
+      changeAt = next.end;
+      next = at(changeAt);
+    }
+    // Same all the way through the week
+    if (current && !next && !segments.some(segment => segment.start >= changeAt)) return `Now: ${label}`;
+
+    return `Now: ${label} until ${this._formatWhen(changeAt, todayIndex)}, then ${next ? this._describeState(next.slot) : 'nothing scheduled'}`;
+  }
+
+  // Minutes from today's midnight as "17:00", or "Tue 06:00" once it's another day
+  private _formatWhen(minute: number, todayIndex: number): string {
+    const days = Math.floor(minute / MINUTES_PER_DAY);
+    const time = this._formatMinutes(minute - days * MINUTES_PER_DAY);
+    return days ? `${ALL_DAYS[(todayIndex + days) % ALL_DAYS.length].substring(0, 3)} ${time}` : time;
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // History overlay
+  // ────────────────────────────────────────────────────────────────────────────
+  /**
+   * Load the first target entity's past week from the recorder and cut it
+   * into per-day pieces in HA's time zone, each with what the entity was
+   * actually doing as read by its domain adapter.
+   */
+  private async _fetchHistory(): Promise<void> {
+    const entityId = this._targetEntities[0];
+    if (!this.hass || !entityId || !this._config?.show_history) return;
+    this._historyFetchedAt = Date.now();
+
+    const end = Date.now();
+    const start = end - ALL_DAYS.length * MINUTES_PER_DAY * 60000;
+    const adapter = this._adapter;
+
+    try {
+      const result = await this.hass.callWS<Record<string, HistoryState[]>>({
+        type: 'history/history_during_period',
+        start_time: new Date(start).toISOString(),
+        end_time: new Date(end).toISOString(),
+        entity_ids: [entityId],
+        minimal_response: false,
+        no_attributes: false,
+        significant_changes_only: false,
+      });
+      const states = result?.[entityId] ?? [];
+
+      const pieces: Record<string, Omit<HistorySegment, 'deviation'>[]> = {};
+      let attributes: Record<string, unknown> = {};
+      states.forEach((entry, i) => {
+        attributes = entry.a ?? attributes;
+        const actual = readActualState(adapter, entry.s, attributes);
+        if (!actual) return;
+
+        let from = Math.max(entry.lu * 1000, start);
+        const to = i + 1 < states.length ? states[i + 1].lu * 1000 : end;
+        // Cut at each midnight (server time)
+        while (from < to) {
+          const parts = this._zonedParts(new Date(from));
+          const intoDay = (parts.minutes * 60 + parts.seconds) * 1000 + new Date(from).getMilliseconds();
+          const pieceEnd = Math.min(to, from + MINUTES_PER_DAY * 60000 - intoDay);
+          const piece = { start: intoDay / 60000, end: (intoDay + pieceEnd - from) / 60000, state: actual };
+
+          const day = pieces[parts.date] ?? (pieces[parts.date] = []);
+          const last = day[day.length - 1];
+          // Attribute-only updates (e.g. a temperature reading) with the same outcome extend the last piece
+          if (last && last.end === piece.start && last.state.on === actual.on && last.state.value === actual.value) {
+            last.end = piece.end;
+          } else {
+            day.push(piece);
+          }
+          from = pieceEnd;
+        }
+      });
+      this._historyPieces = pieces;
+    } catch (err) {
+      console.warn('Could not fetch history:', err);
+    }
+  }
+
+  willUpdate(changedProperties: Map<string | number | symbol, unknown>): void {
+    super.willUpdate(changedProperties);
+    if (changedProperties.has('_days') || changedProperties.has('_historyPieces') || changedProperties.has('_overrides')) {
+      this._history = this._compareWithPlan();
+    }
+  }
+
+  // Weekday of a YYYY-MM-DD date
+  private _dayNameOf(date: string): string {
+    return ALL_DAYS[(new Date(`${date}T12:00:00Z`).getUTCDay() + 6) % 7];
+  }
+
+  // The date `dayName` last was (today for today's row), in HA's time zone
+  private _pastDate(dayName: string): string {
+    const today = this._zonedParts(new Date());
+    const back = (ALL_DAYS.indexOf(today.dayName) - ALL_DAYS.indexOf(dayName) + ALL_DAYS.length) % ALL_DAYS.length;
+    return this._addDays(today.date, -back);
+  }
+
+  // What was planned for a date: an override's slots if one covered it, else the weekday's
+  private _plannedSlots(date: string): TimeSlot[] {
+    const override = this._overrideOn(date);
+    if (override) return override.timeSlots;
+
+    const dayIndex = this._days.findIndex(day => day.dayName === this._dayNameOf(date));
+    return dayIndex === -1 ? [] : this._effectiveSlots(this._days[dayIndex], dayIndex);
+  }
+
+  // A date's planned slots as 0..1440 stretches, the previous evening's run past midnight included
+  private _plannedStretches(date: string): { start: number; end: number; slot: TimeSlot }[] {
+    const stretches: { start: number; end: number; slot: TimeSlot }[] = [];
+    for (const slot of this._plannedSlots(date)) {
+      stretches.push({ start: slot.start, end: Math.min(this._extendedEnd(slot.start, slot.end), MINUTES_PER_DAY), slot });
+    }
+    // An override's first day starts clean, it switches the week off at midnight
+    if (this._overrideOn(date)) return stretches;
+    for (const slot of this._plannedSlots(this._addDays(date, -1))) {
+      if (this._wraps(slot)) stretches.push({ start: 0, end: slot.end, slot });
+    }
+    return stretches;
+  }
+
+  // Off when it should be on (or the other way round), or a value too far from the planned one
+  private _deviates(planned: TimeSlot, actual: SlotState): boolean {
+    const mode = getSlotMode(this._adapter, planned);
+    if (mode === 'off') return actual.on;
+    if (!actual.on) return true;
+    if (mode === 'on') return false;
+
+    const range = this._valueRange;
+    return Math.abs(actual.value - planned.value) > Math.max(range.step, (range.max - range.min) * DEVIATION_TOLERANCE);
+  }
+
+  /**
+   * Split each day's pieces at the plan's slot edges and flag the parts that
+   * don't match. Slots with conditions may rightly not have run, so they're
+   * never flagged, and mismatches shorter than DEVIATION_MIN_MINUTES in a
+   * row are let go.
+   */
+  private _compareWithPlan(): Record<string, HistorySegment[]> {
+    const result: Record<string, HistorySegment[]> = {};
+
+    for (const [date, pieces] of Object.entries(this._historyPieces)) {
+      const planned = this._plannedStretches(date);
+      const segments: HistorySegment[] = [];
+
+      for (const piece of pieces) {
+        const edges = [piece.start, piece.end];
+        for (const stretch of planned) {
+          [stretch.start, stretch.end].forEach(edge => {
+            if (edge > piece.start && edge < piece.end) edges.push(edge);
+          });
+        }
+        edges.sort((a, b) => a - b);
+
+        for (let i = 1; i < edges.length; i++) {
+          if (edges[i] === edges[i - 1]) continue;
+          const middle = (edges[i - 1] + edges[i]) / 2;
+          const plan = planned.find(stretch => stretch.start <= middle && middle < stretch.end);
+          segments.push({
+            start: edges[i - 1],
+            end: edges[i],
+            state: piece.state,
+            deviation: !!plan && !plan.slot.conditions && this._deviates(plan.slot, piece.state),
+          });
+        }
+      }
+
+      // Only runs of mismatches long enough to matter stay flagged
+      for (let i = 0; i < segments.length; i++) {
+        if (!segments[i].deviation) continue;
+        let j = i;
+        while (j + 1 < segments.length && segments[j + 1].deviation && segments[j + 1].start === segments[j].end) j++;
+        if (segments[j].end - segments[i].start < DEVIATION_MIN_MINUTES) {
+          for (let k = i; k <= j; k++) segments[k].deviation = false;
+        }
+        i = j;
+      }
+
+      result[date] = segments;
+    }
+    return result;
+  }
+
+  private _renderHistoryTrack(dayName: string): TemplateResult {
+    const date = this._pastDate(dayName);
+    const segments = this._history[date] ?? [];
+
+    return html`
+      <div class="history-track" title="What happened on ${this._formatDate(date)}">
+        ${segments.map(segment => html`
+          <div
+            class="history-segment ${segment.state.on ? 'on' : 'off'} ${segment.deviation ? 'deviation' : ''}"
+            style="left: ${(segment.start / MINUTES_PER_DAY) * 100}%; width: ${((segment.end - segment.start) / MINUTES_PER_DAY) * 100}%;"
+            title="${this._formatMinutes(Math.floor(segment.start))}–${this._formatMinutes(Math.round(segment.end))}: ${this._describeState({ start: 0, end: 0, ...segment.state })}${segment.deviation ? ', not as planned' : ''}"
+          ></div>
+        `)}
+      </div>
+    `;
+  }
+
+  private _toggleShowTodayOnly(): void {
+    if (!this._config) return;
+  
+    // Toggle the `show_today_only` option
+    this._config = {
+      ...this._config,
+      show_today_only: !this._config.show_today_only,
+    };
+  
+    // Trigger re-render
+    this.requestUpdate();
+  
+    // Fire a config-changed event to notify the parent of the change
+    fireEvent(this, 'config-changed', { config: this._config });
+  }
+  protected render(): TemplateResult {
+    if (!this._config) {
+      return html`<ha-card>Configuration missing!</ha-card>`;
+    }
+  
+    const cardTitle = this._targetEntities.length
+      ? `${this._config.name || 'Scheduler'}`
+      : this._config.name || 'Scheduler';
+  
+    const now = this._serverNow();
+    const today = now.dayName;
+    const nowSummary = this._nowSummary(now);
+  
+    return html`
+      <!-- tabindex so clicks inside focus the card and Ctrl+Z reaches it -->
+      <ha-card tabindex="-1" @keydown=${this._onKeyDown}>
+        <!-- Header with undo/redo and sync buttons -->
+        <div class="header">
+          <span>${cardTitle}</span>
+          <div class="header-buttons">
+          ${this._profiles.length
+            ? html`
+                <!-- Always back on the placeholder, so picking the active profile again reloads it -->
+                <select
+                  class="profile-select"
+                  title="Load profile"
+                  .value=${''}
+                  @change=${(e: Event) => {
+                    const select = e.currentTarget as HTMLSelectElement;
+                    this._loadProfile(select.value);
+                    select.value = '';
+                  }}
+                >
+                  <option value="" disabled>${this._activeProfile ? `Profile: ${this._activeProfile}` : 'Profile…'}</option>
+                  ${this._profiles.map(profile => html`<option value=${profile.name}>${profile.name}</option>`)}
+                </select>
+              `
+            : null}
+          <button
+            class="history-button"
+            title="Add a date override, e.g. a vacation"
+            @click=${this._openOverride}
+          >Override…</button>
+          <button
+            class="history-button"
+            title="Import or export this week"
+            @click=${this._openTransfer}
+          >Import/Export</button>
+          <button
+            class="history-button"
+            title="Undo (Ctrl+Z)"
+            ?disabled=${!this._undoStack.length}
+            @click=${this._undo}
+          >Undo</button>
+          <button
+            class="history-button"
+            title="Redo (Ctrl+Shift+Z)"
+            ?disabled=${!this._redoStack.length}
+            @click=${this._redo}
+          >Redo</button>
+          <button
+            outlined
+            class="toggle-today-button"
+            @click=${this._toggleShowTodayOnly}
+          >${this._config?.show_today_only ? 'Show week' : 'Show today'}</button>
+          <button
+            class="sync-button ${this._isSynced ? 'synced' : ''}"
+            @click=${this._onSyncClick}
+          >
+            Sync
+          </button>
+          </div>
+        </div>
+        ${nowSummary ? html`<div class="now-summary">${nowSummary}</div>` : null}
+  
+        <!-- Warning if no entity is configured -->
+        ${!this._targetEntities.length
+          ? html`
+              <div class="warning">
+                <strong>Warning:</strong> No entity configured. Please edit this card and select one or more entities.
+              </div>
+            `
+          : null}
+
+        <!-- Schedules left alone because the card can't read their actions -->
+        ${this._unreadableSchedules.map(schedule => html`
+          <div class="warning">
+            <strong>Not managed:</strong> ${schedule.entityId} uses ${schedule.services.join(', ')}, which this card
+            can't read. It isn't shown here and Sync leaves it alone, so it keeps running next to the card's schedule.
+          </div>
+        `)}
+
+        ${this._copySkipped.length
+          ? html`
+              <div class="warning">
+                <strong>Not copied:</strong> ${this._copySkipped.join(', ')} would overlap existing timeslots.
+                <button class="day-action" title="Dismiss" @click=${() => (this._copySkipped = [])}>✕</button>
+              </div>
+            `
+          : null}
+  
+        <!-- Main content of the card -->
+        <div
+          class="days-container ${this._config?.show_today_only ? 'show-today-only' : ''}"
+          @pointerdown=${this._onBandPointerDown}
+          @pointermove=${this._onBandPointerMove}
+          @pointerup=${this._onBandPointerUp}
+          @pointercancel=${this._onBandPointerUp}
+        >
+          ${this._band
+            ? html`<div
+                class="selection-band"
+                style="left: ${Math.min(this._band.x1, this._band.x2)}px;
+                  top: ${Math.min(this._band.y1, this._band.y2)}px;
+                  width: ${Math.abs(this._band.x2 - this._band.x1)}px;
+                  height: ${Math.abs(this._band.y2 - this._band.y1)}px;"
+              ></div>`
+            : null}
+          ${this._days.map((day, dayIndex) => this._renderDayRow(day, dayIndex, today))}
+        </div>
+        ${this._renderOverrideList()}
+        ${this._renderOverridePanel()}
+        ${this._renderTransferPanel()}
+        ${this._renderCopyToPanel()}
+        ${this._renderSyncPreview()}
+        ${this._renderSyncResults()}
+        ${this._renderOptionsPanel()}
+        <div class="visually-hidden" role="status" aria-live="polite">${this._announcement}</div>
+      </ha-card>
+    `;
+  }
+  
+  private getEntityDomain(entityId: string): string {
+    // e.g. "light.living_room_lamp" => "light"
+    const [domain] = entityId.split('.');
+    return domain;
+  }
+
+  // Adapter for the first target entity's domain (plain on/off if there is none).
+  // Modes and slider follow it; every entity still builds its own actions.
+  private get _adapter(): DomainAdapter {
+    return getDomainAdapter(this.getEntityDomain(this._targetEntities[0] ?? ''));
+  }
+
+  private get _valueRange(): ValueRange {
+    const entityId = this._targetEntities[0];
+    return this._adapter.range(entityId ? this.hass?.states[entityId] : undefined);
+  }
+
+  // One action per target entity, each built by its own domain adapter
+  private _buildSlotActions(entityIds: string[], slot: TimeSlot): SlotAction[] {
+    return entityIds.reduce<SlotAction[]>(
+      (all, entityId) => all.concat(getDomainAdapter(this.getEntityDomain(entityId)).buildActions(entityId, slot)),
+      []
+    );
+  }
+
+  
+
+  /**
+   * Build the "HH:MM:SS" timeslots payload the scheduler component expects.
+   */
+  private _buildTimeslots(entityIds: string[], slots: TimeSlot[]): SchedulerTimeslot[] {
+    return [...slots]
+      .sort((a, b) => a.start - b.start)
+      .map(slot => {
+        const start = this._formatBoundary(slot.start, slot.startSun);
+        let stop   = this._formatBoundary(slot.end, slot.endSun);
+        if (stop === '24:00:00') {
+          stop = '23:59:59';
+        }
+
+        const actions = this._buildSlotActions(entityIds, slot);
+        if (!slot.conditions?.conditions.length) return { start, stop, actions };
+        return {
+          start,
+          stop,
+          actions,
+          conditions: slot.conditions.conditions,
+          condition_type: slot.conditions.logic,
+        };
+      });
+  }
+
+  /**
+   * A slot as it will look after a sync and reload: built into actions and
+   * parsed back by the domain adapter (e.g. an off slot always has value 0),
+   * with sun-anchored edges resolved for today. Minutes resolved earlier go
+   * stale once the card has been open past a day change.
+   */
+  private _canonicalSlot(slot: TimeSlot): TimeSlot {
+    const entityId = this._targetEntities[0] ?? '';
+    const adapter = getDomainAdapter(this.getEntityDomain(entityId));
+    const [first] = adapter.buildActions(entityId, slot);
+    const parsed = first ? adapter.parseAction(first.service, first.service_data) : null;
+    return {
+      start: slot.startSun ? this._resolveSunAnchor(slot.startSun) : slot.start,
+      end: slot.endSun ? this._resolveSunAnchor(slot.endSun) : slot.end,
+      on: parsed?.on ?? slot.on,
+      value: parsed?.value ?? slot.value,
+      startSun: slot.startSun,
+      endSun: slot.endSun,
+      conditions: slot.conditions?.conditions.length ? slot.conditions : undefined,
+    };
+  }
+
+  private _conditionsEqual(a?: ConditionSet, b?: ConditionSet): boolean {
+    const normalize = (set?: ConditionSet) =>
+      set?.conditions.length
+        ? JSON.stringify({
+            logic: set.logic,
+            conditions: set.conditions.map(c => [c.entity_id, c.attribute ?? '', c.match_type, String(c.value)]),
+          })
+        : '';
+    return normalize(a) === normalize(b);
+  }
+
+  /**
+   * A day's slots with the day conditions pushed down into every slot that
+   * has none of its own: what each scheduler timeslot will actually carry.
+   */
+  private _effectiveSlots(day: ApsleyDay, dayIndex: number): TimeSlot[] {
+    const { kept, gaps } = this._fillGaps(dayIndex);
+    // Half-filled conditions (e.g. a row just added) are never synced
+    const dayConditions = this._completeConditions(day.conditions);
+    const slots = kept.map(slot => {
+      const { conditions, ...rest } = slot;
+      const own = this._completeConditions(conditions) ?? dayConditions;
+      return own ? { ...rest, conditions: own } : rest;
+    });
+    // Gap fills never get the day's conditions, they're the baseline
+    return [...slots, ...gaps];
+  }
+
+  // The day's default state from the config, else the card's, else none
+  private _defaultStateFor(day: ApsleyDay | undefined): SlotState | undefined {
+    const own = day && this._config?.days?.find(d => d.dayName === day.dayName)?.defaultState;
+    return own ?? this._config?.default_state;
+  }
+
+  // A plain slot doing exactly what the default does is the same as a gap
+  private _isDefaultSlot(slot: TimeSlot, state: SlotState | undefined): boolean {
+    if (!state || this._completeConditions(slot.conditions)) return false;
+    const canonical = this._canonicalSlot(slot);
+    const baseline = this._canonicalSlot({ start: 0, end: MINUTES_PER_DAY, ...state });
+    return canonical.on === baseline.on && canonical.value === baseline.value;
+  }
+
+  /**
+   * Split a day into the slots that matter (`kept`) and default-state slots
+   * covering everything else (`gaps`), including around last night's slot
+   * running into this morning. Gap edges follow sun-anchored slot edges, so
+   * nothing opens up or overlaps as the sun times move. No default, no gaps.
+   */
+  private _fillGaps(dayIndex: number, days: ApsleyDay[] = this._days): { kept: TimeSlot[]; gaps: TimeSlot[] } {
+    const day = days[dayIndex];
+    const state = this._defaultStateFor(day);
+    if (!state) return { kept: day.timeSlots, gaps: [] };
+
+    const kept = day.timeSlots.filter(slot => !this._isDefaultSlot(slot, state));
+    const prevIndex = (dayIndex + days.length - 1) % days.length;
+    const prev = days[prevIndex];
+    const prevState = this._defaultStateFor(prev);
+    const tails = prevIndex === dayIndex ? [] : prev.timeSlots
+      .filter(slot => this._wraps(slot) && !this._isDefaultSlot(slot, prevState))
+      .map(slot => ({ start: 0, end: slot.end, startSun: undefined, endSun: slot.endSun }));
+
+    const occupied = [
+      ...kept.map(slot => this._wraps(slot)
+        ? { start: slot.start, end: MINUTES_PER_DAY, startSun: slot.startSun, endSun: undefined }
+        : { start: slot.start, end: slot.end, startSun: slot.startSun, endSun: slot.endSun }),
+      ...tails,
+    ].sort((a, b) => a.start - b.start);
+
+    const gaps: TimeSlot[] = [];
+    let cursor = 0;
+    let cursorSun: SunAnchor | undefined;
+    const addGap = (end: number, endSun?: SunAnchor) => {
+      const gap: TimeSlot = { start: cursor, end, ...state };
+      if (cursorSun) gap.startSun = cursorSun;
+      if (endSun) gap.endSun = endSun;
+      gaps.push(gap);
+    };
+    for (const segment of occupied) {
+      if (segment.start > cursor) addGap(segment.start, segment.startSun);
+      if (segment.end >= cursor) {
+        cursor = segment.end;
+        cursorSun = segment.endSun;
+      }
+    }
+    if (cursor < MINUTES_PER_DAY) addGap(MINUTES_PER_DAY);
+
+    return { kept, gaps };
+  }
+
+  private _sunAnchorsEqual(a?: SunAnchor, b?: SunAnchor): boolean {
+    if (!a || !b) return !a && !b;
+    return a.event === b.event && a.offset === b.offset;
+  }
+
+  private _slotsEqual(a: TimeSlot[], b: TimeSlot[]): boolean {
+    if (a.length !== b.length) return false;
+    const sortedA = a.map(slot => this._canonicalSlot(slot)).sort((x, y) => x.start - y.start);
+    const sortedB = b.map(slot => this._canonicalSlot(slot)).sort((x, y) => x.start - y.start);
+    return sortedA.every((slot, i) => {
+      const other = sortedB[i];
+      return slot.start === other.start
+        && slot.end === other.end
+        && slot.on === other.on
+        && slot.value === other.value
+        && this._sunAnchorsEqual(slot.startSun, other.startSun)
+        && this._sunAnchorsEqual(slot.endSun, other.endSun)
+        && this._conditionsEqual(slot.conditions, other.conditions);
+    });
+  }
+
+  /**
+   * Split the days that have timeslots into groups with identical slots, so
+   * each group can be written as one schedule.
+   */
+  private _groupIdenticalDays(): ApsleyDay[][] {
+    const groups: ApsleyDay[][] = [];
+    const days = this._days.map((day, dayIndex) => ({ ...day, timeSlots: this._effectiveSlots(day, dayIndex) }));
+    for (const day of days) {
+      if (!day.timeSlots.length || !this._mapDayNameToCode(day.dayName)) continue;
+      const group = groups.find(g => this._slotsEqual(g[0].timeSlots, day.timeSlots));
+      if (group) {
+        group.push(day);
+      } else {
+        groups.push([day]);
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Diff `_days` against what HA currently has and work out the minimal set of
+   * scheduler calls. Days with identical slots are written as one schedule
+   * (`daily`, `workday`, `weekend` or a list of days). A group that already
+   * exists as exactly one schedule is left alone; otherwise an old schedule is
+   * edited in place where possible, and a shared schedule only loses the
+   * changed weekdays. Pass `onlyDays` to limit the plan to those days (used by retry).
+   */
+  private _buildSyncPlan(onlyDays?: string[]): SyncOperation[] {
+    const entityIds = this._targetEntities;
+    if (!this.hass || !entityIds.length) return [];
+
+    const existing = this._readExistingSchedules();
+    const existingByDay = this._groupSlotsByDay(existing);
+    const inScope = (name: string) => !onlyDays || onlyDays.includes(name);
+
+    // A group is up to date when one schedule covers exactly its days with its slots
+    const changedGroups = this._groupIdenticalDays().filter(group => {
+      const names = group.map(day => day.dayName);
+      if (!names.some(inScope)) return false;
+      const covering = existing.filter(schedule => schedule.dayNames.some(name => names.includes(name)));
+      return !(
+        covering.length === 1 &&
+        covering[0].dayNames.length === names.length &&
+        names.every(name => covering[0].dayNames.includes(name)) &&
+        this._slotsEqual(covering[0].timeSlots, group[0].timeSlots)
+      );
+    });
+
+    // Emptied days that still have something in HA
+    const clearedDays = this._days.filter((day, dayIndex) =>
+      inScope(day.dayName) &&
+      !this._effectiveSlots(day, dayIndex).length &&
+      (existingByDay[day.dayName] || []).length > 0
+    );
+
+    const changedNames = [
+      ...changedGroups.reduce<string[]>((all, group) => all.concat(group.map(day => day.dayName)), []),
+      ...clearedDays.map(day => day.dayName),
+    ];
+
+    const narrowed: SyncOperation[] = [];
+    const removed: SyncOperation[] = [];
+    const written: SyncOperation[] = [];
+    const reusable: ExistingSchedule[] = [];
+
+    // 1) Schedules touching a changed day: keep the unchanged days, free up the rest
+    for (const schedule of existing) {
+      const keep = schedule.dayNames.filter(name => !changedNames.includes(name));
+      if (keep.length === schedule.dayNames.length) continue;
+
+      if (keep.length) {
+        narrowed.push({
+          type: 'edit',
+          entityId: schedule.entityId,
+          dayNames: schedule.dayNames.filter(name => changedNames.includes(name)),
+          previous: schedule,
+          data: { weekdays: this._dayNamesToWeekdays(keep) },
+        });
+      } else {
+        reusable.push(schedule);
+      }
+    }
+
+    // 2) Write each changed group, editing the freed schedule that shares the
+    //    most days with it. Emptied days write nothing, so their old schedules
+    //    fall through to step 3.
+    for (const group of changedGroups) {
+      const names = group.map(day => day.dayName);
+      const weekdays = this._dayNamesToWeekdays(names);
+      const timeslots = this._buildTimeslots(entityIds, group[0].timeSlots);
+
+      const overlap = (schedule: ExistingSchedule) =>
+        schedule.dayNames.filter(name => names.includes(name)).length;
+      const best = reusable
+        .filter(schedule => overlap(schedule) > 0)
+        .sort((a, b) => overlap(b) - overlap(a))[0];
+
+      if (best) {
+        reusable.splice(reusable.indexOf(best), 1);
+        const sameDays = best.dayNames.length === names.length && overlap(best) === names.length;
+        written.push({
+          type: 'edit',
+          entityId: best.entityId,
+          dayNames: names,
+          previous: best,
+          data: sameDays ? { timeslots } : { weekdays, timeslots },
+        });
+      } else {
+        written.push({
+          type: 'add',
+          dayNames: names,
+          data: {
+            name: `${this._weekdaysLabel(weekdays)} schedule (${entityIds.join(', ')})`,
+            weekdays,
+            timeslots,
+            repeat_type: 'repeat',
+            tags: [],
+          },
+        });
+      }
+    }
+
+    // 3) Whatever is left over for the changed days is no longer needed
+    for (const schedule of reusable) {
+      removed.push({
+        type: 'remove',
+        entityId: schedule.entityId,
+        dayNames: schedule.dayNames,
+        previous: schedule,
+      });
+    }
+
+    return [...narrowed, ...removed, ...written];
+  }
+
+  // e.g. ['workday'] → "Workday", ['mon', 'wed'] → "Monday, Wednesday"
+  private _weekdaysLabel(weekdays: string[]): string {
+    return weekdays
+      .map(code => this._mapDayCodeToName(code) ?? code.charAt(0).toUpperCase() + code.slice(1))
+      .join(', ');
+  }
+
+  /**
+   * Days the plan touches that end up with no timeslots at all.
+   */
+  private _clearedDays(plan: SyncOperation[]): string[] {
+    return this._days
+      .filter((day, dayIndex) =>
+        !this._effectiveSlots(day, dayIndex).length && plan.some(op => op.dayNames.includes(day.dayName)))
+      .map(day => day.dayName);
+  }
+
+  /**
+   * Rebuild scheduler service data from a snapshot of an existing schedule,
+   * so a removed or edited schedule can be put back as it was.
+   */
+  private _snapshotToServiceData(schedule: ExistingSchedule): SchedulerServiceData {
+    const attr = schedule.attributes;
+    const timeslotStrs = attr.timeslots || [];
+    const actionGroups = this._actionGroups(attr) ?? [];
+    const entities = attr.entities?.length ? attr.entities : this._targetEntities;
+
+    return {
+      name: attr.friendly_name,
+      weekdays: attr.weekdays || [],
+      timeslots: timeslotStrs.map((slotStr, i) => {
+        const [start, stop] = this._splitTimeslot(slotStr) ?? ['', ''];
+        const group = actionGroups[i] ?? [];
+        const conditions = this._scheduleConditions[schedule.entityId]?.[i];
+        return {
+          start,
+          stop,
+          ...(conditions ? { conditions: conditions.conditions, condition_type: conditions.logic } : {}),
+          // Each entity's own action; one without an entity went to all of them
+          actions: group.reduce<SlotAction[]>((all, action, j) => {
+            const entityIds = action.entity_id ? [action.entity_id] : group.length === 1 ? entities : [entities[j]];
+            return all.concat(entityIds.map(entityId => ({
+              entity_id: entityId,
+              service: action.service,
+              service_data: action.data ?? action.service_data ?? {},
+            })));
+          }, []),
+        };
+      }),
+      repeat_type: attr.repeat_type ?? 'repeat',
+      tags: attr.tags ?? [],
+    };
+  }
+
+  /**
+   * The operation that undoes `op`, or null if it can't be undone (an add
+   * whose new schedule couldn't be found). A removed schedule comes back as
+   * a new one, so it gets a new entity id.
+   */
+  private _inverseOperation(op: SyncOperation): SyncOperation | null {
+    // Done adds carry the entity id of the schedule they created
+    if (op.type === 'add') {
+      return op.entityId ? { type: 'remove', entityId: op.entityId, dayNames: op.dayNames } : null;
+    }
+    if (!op.previous) return null;
+    const snapshot = this._snapshotToServiceData(op.previous);
+
+    if (op.type === 'remove') {
+      return { type: 'add', dayNames: op.dayNames, data: snapshot };
+    }
+    if (op.type === 'edit') {
+      return {
+        type: 'edit',
+        entityId: op.entityId,
+        dayNames: op.dayNames,
+        data: { weekdays: snapshot.weekdays, timeslots: snapshot.timeslots },
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Split the plan into independent transactions: operations that share a day
+   * end up in the same group, in plan order.
+   */
+  private _groupPlanByDays(plan: SyncOperation[]): SyncOperation[][] {
+    let groups: SyncOperation[][] = [];
+
+    for (const op of plan) {
+      const linked = groups.filter(group =>
+        group.some(other => other.dayNames.some(name => op.dayNames.includes(name)))
+      );
+      const merged = linked.reduce<SyncOperation[]>((all, group) => all.concat(group), []);
+      groups = groups.filter(group => !linked.includes(group));
+      groups.push([...merged, op]);
+    }
+
+    // Restore plan order inside each group after merging
+    return groups.map(group => group.sort((a, b) => plan.indexOf(a) - plan.indexOf(b)));
+  }
+
+  /**
+   * Make the scheduler call for `op`. For an add, resolves to the entity id
+   * of the schedule it created (when it can be found), so it can be rolled back.
+   */
+  private async _callSchedulerService(op: SyncOperation): Promise<string | undefined> {
+    if (!this.hass) return undefined;
+    const serviceData = op.entityId
+      ? { entity_id: op.entityId, ...op.data }
+      : { ...op.data };
+    // The add service doesn't return the new schedule, note what's there to spot it after
+    const before = op.type === 'add' ? await this._scheduleIds() : null;
+
+    await this.hass.callService('scheduler', op.type, serviceData);
+    console.log(`Scheduler ${op.type} for ${op.dayNames.join(', ')}:`, op.entityId ?? serviceData);
+
+    return before ? this._findAddedSchedule(before) : undefined;
+  }
+
+  // Ids of every schedule the scheduler component has, or null if they can't be listed
+  private async _scheduleIds(): Promise<string[] | null> {
+    if (!this.hass) return null;
+    try {
+      const items = await this.hass.callWS<SchedulerWSItem[]>({ type: 'scheduler' });
+      return (items || []).map(item => item.schedule_id);
+    } catch (err) {
+      console.warn('Could not list schedules, a new one will not be rolled back:', err);
+      return null;
+    }
+  }
+
+  // The entity of a schedule that isn't in `before`, waiting a little for it to be registered
+  private async _findAddedSchedule(before: string[]): Promise<string | undefined> {
+    if (!this.hass) return undefined;
+    for (let attempt = 0; attempt < 10; attempt++) {
+      try {
+        const items = await this.hass.callWS<SchedulerWSItem[]>({ type: 'scheduler' });
+        const added = (items || []).find(item => !before.includes(item.schedule_id));
+        if (added?.entity_id) return added.entity_id;
+      } catch (err) {
+        console.warn('Could not list schedules:', err);
+        return undefined;
+      }
+      await new Promise(resolve => setTimeout(resolve, 300));
+    }
+    console.warn('New schedule not found, it will not be rolled back');
+    return undefined;
+  }
+
+  /**
+   * Sync `_days` to the scheduler component, only touching days that differ
+   * from what is already stored in HA.
+   *
+   * Each group of days is applied as a transaction: if any call fails, the
+   * calls already made for that group are undone from their snapshots, so a
+   * day is never left without its schedule. Returns one result per day.
+   */
+  private async _syncSchedules(plan: SyncOperation[] = this._buildSyncPlan()): Promise<SyncDayResult[]> {
+    if (!this.hass || !this._targetEntities.length) return [];
+
+    const results: SyncDayResult[] = this._days.map(day => ({
+      dayName: day.dayName,
+      status: 'unchanged',
+      added: 0,
+      removed: 0,
+    }));
+
+    if (!plan.length) {
+      console.log('Schedules already up to date, nothing to sync.');
+      return results;
+    }
+
+    const cleared = this._clearedDays(plan);
+
+    for (const group of this._groupPlanByDays(plan)) {
+      const done: SyncOperation[] = [];
+      const groupResults = results.filter(result => group.some(op => op.dayNames.includes(result.dayName)));
+      const dayNames = groupResults.map(result => result.dayName);
+
+      try {
+        for (const op of group) {
+          const created = await this._callSchedulerService(op);
+          done.push(created ? { ...op, entityId: created } : op);
+        }
+
+        for (const result of groupResults) {
+          const ops = group.filter(op => op.dayNames.includes(result.dayName));
+          result.status = cleared.includes(result.dayName) ? 'cleared' : 'synced';
+          result.added = ops.reduce((sum, op) => sum + (op.data?.timeslots?.length ?? 0), 0);
+          result.removed = this._describeRemovals(ops, result.dayName).length;
+        }
+      } catch (err) {
+        console.error(`Failed to sync ${dayNames.join(', ')}, rolling back:`, err);
+
+        let rolledBack = true;
+        for (const op of done.reverse()) {
+          const inverse = this._inverseOperation(op);
+          if (!inverse) continue;
+          try {
+            await this._callSchedulerService(inverse);
+          } catch (rollbackErr) {
+            rolledBack = false;
+            console.error(`Failed to roll back scheduler ${op.type} for ${op.entityId}:`, rollbackErr);
+          }
+        }
+
+        for (const result of groupResults) {
+          result.status = 'failed';
+          result.error = (err as Error)?.message ?? String(err);
+          result.rolledBack = rolledBack;
+        }
+      }
+    }
+
+    // Replaced schedules have new entities, which overrides must switch off too
+    if (this._overrides.length && plan.some(op => op.type !== 'edit')) {
+      await this._relinkOverrides();
+    }
+
+    console.log('Finished syncing schedules via scheduler component');
+    return results;
+  }
+
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Sync preview
+  // ────────────────────────────────────────────────────────────────────────────
+  private _renderSyncPreview(): TemplateResult {
+    const plan = this._syncPreview;
+    if (!plan) return html``;
+
+    return html`
+      <div class="options-panel sync-preview">
+        <div class="option-row">
+          <span class="day-display">Sync preview</span>
+        </div>
+        ${this._syncPreviewStale
+          ? html`<div class="import-warning">The week changed since this preview opened. This is the updated plan.</div>`
+          : null}
+
+        ${!plan.length
+          ? html`<div class="preview-empty">Everything is already in sync.</div>`
+          : this._days.map(day => this._renderSyncPreviewDay(day.dayName, plan))}
+
+        <div class="option-row">
+          <mwc-button outlined .label=${'Cancel'} @click=${this._onSyncCancel}></mwc-button>
+          ${plan.length
+            ? html`<mwc-button unelevated .label=${'Confirm sync'} @click=${this._onSyncConfirm}></mwc-button>`
+            : null}
+        </div>
+      </div>
+    `;
+  }
+
+  // Anything that stops applying to this day counts as removed for it
+  private _describeRemovals(ops: SyncOperation[], dayName: string): string[] {
+    return ops
+      .filter(op => op.entityId)
+      .map(op => {
+        if (op.type === 'remove') return op.entityId as string;
+        if (op.data?.timeslots) return `${op.entityId} (old timeslots replaced)`;
+        return `${op.entityId} (${dayName} only)`;
+      });
+  }
+
+  private _renderSyncPreviewDay(dayName: string, plan: SyncOperation[]): TemplateResult {
+    const ops = plan.filter(op => op.dayNames.includes(dayName));
+    if (!ops.length) {
+      return html`
+        <div class="preview-day">
+          <strong>${dayName}</strong>
+          <span class="preview-unchanged">No changes</span>
+        </div>
+      `;
+    }
+
+    const removals = this._describeRemovals(ops, dayName);
+    const timeslots = ops.reduce<SchedulerTimeslot[]>((all, op) => all.concat(op.data?.timeslots ?? []), []);
+    const cleared = this._clearedDays(plan).includes(dayName);
+
+    return html`
+      <div class="preview-day">
+        <strong>${dayName}</strong>
+        ${cleared ? html`<span class="preview-removed">Cleared: no timeslots left for this day</span>` : null}
+        ${removals.map(entityId => html`<div class="preview-removed">− ${entityId}</div>`)}
+        ${timeslots.map(ts => html`
+          <div class="preview-added">
+            + ${ts.start.substring(0, 5)} - ${ts.stop.substring(0, 5)}
+            ${ts.actions.map(action => html`
+              <code>${action.service} ${JSON.stringify(action.service_data)}</code>
+            `)}
+          </div>
+        `)}
+      </div>
+    `;
+  }
+
+  private _renderSyncResults(): TemplateResult {
+    const results = this._syncResults;
+    if (!results) return html``;
+
+    return html`
+      <div class="options-panel sync-results">
+        <div class="option-row">
+          <span class="day-display">Sync result</span>
+        </div>
+
+        ${results.map(result => html`
+          <div class="option-row sync-result ${result.status}">
+            <strong class="result-day">${result.dayName}</strong>
+            <span class="result-detail">${this._describeSyncResult(result)}</span>
+            ${result.status === 'failed'
+              ? html`
+                  <mwc-button
+                    outlined
+                    .label=${'Retry'}
+                    @click=${() => this._onSyncRetry(result.dayName)}
+                  ></mwc-button>
+                `
+              : null}
+          </div>
+        `)}
+
+        <div class="option-row">
+          <mwc-button outlined .label=${'Close'} @click=${this._onSyncResultsClose}></mwc-button>
+        </div>
+      </div>
+    `;
+  }
+
+  private _describeSyncResult(result: SyncDayResult): string {
+    switch (result.status) {
+      case 'unchanged':
+        return 'No changes';
+      case 'cleared':
+        return `Cleared, ${result.removed} removed`;
+      case 'synced':
+        return `${result.added} timeslots added, ${result.removed} removed`;
+      case 'failed':
+        return `Failed: ${result.error}. ${result.rolledBack
+          ? 'Previous schedule restored.'
+          : 'Previous schedule could not be fully restored.'}`;
+    }
+  }
+
+  private _renderDayRow(
+    day: ApsleyDay,
+    dayIndex: number,
+    today: string
+  ): TemplateResult {
+    const isToday = day.dayName === today;
+    const nowPct = isToday ? (this._serverNow().minutes / MINUTES_PER_DAY) * 100 : null;
+    // This week's date for the row may be taken over by a date override
+    const override = this._overrideOn(this._dateThisWeek(day.dayName));
+    return html`
+      <div class="day-row ${isToday ? 'current-day' : ''} ${override ? 'overridden' : ''}">
+        <div
+          class="day-label"
+          title=${override ? `${override.name}: the week's schedule is overridden this ${day.dayName}` : day.dayName}
+        >${day.dayName.substring(0, 2)}</div>
+        <div class="day-actions">
+          <button class="day-action" title="Copy ${day.dayName}" @click=${() => this._copyDay(dayIndex)}>⧉</button>
+          <button
+            class="day-action"
+            title=${this._copiedDay ? `Paste ${this._copiedDay.dayName} here` : 'Nothing copied'}
+            ?disabled=${!this._copiedDay}
+            @click=${() => this._pasteDay(dayIndex)}
+          >⎘</button>
+          <button class="day-action" title="Copy ${day.dayName} to…" @click=${() => this._openCopyTo(dayIndex)}>⇉</button>
+        </div>
+        <div class="track-container">
+          <div
+            class="track"
+            @click=${(e: MouseEvent) => this._onTrackClick(e, dayIndex)}
+          >
+            <!-- What the entity does between slots, if a default state is set -->
+            ${this._fillGaps(dayIndex).gaps.map(gap => this._renderGap(gap))}
+
+            ${nowPct !== null ? html`<div class="now-line" style="left: ${nowPct}%;" aria-hidden="true"></div>` : null}
+
+            ${day.timeSlots.map((slot, slotIndex) => {
+              // A slot running past midnight is drawn to 24:00 here and continues on the next row
+              const wraps = this._wraps(slot);
+              const leftFrac = slot.start / MINUTES_PER_DAY;
+              const widthFrac = ((wraps ? MINUTES_PER_DAY : slot.end) - slot.start) / MINUTES_PER_DAY;
+              const left = leftFrac * 100;
+              const width = widthFrac * 100;
+  
+              const isSelected = this._isSlotSelected(dayIndex, slotIndex);
+              // Boundaries are only for dragging a single selected slot
+              const showBoundaries = isSelected && !this._multiSelection.length;
+  
+              // Decide how to label the timeslot
+              const mode = getSlotMode(this._adapter, slot);
+              const displayText = mode === 'off' ? 'Off' : mode === 'on' ? 'On' : String(slot.value);
   
               return html`
                 <!-- Timeslot background -->
                 <div
                   class="timeslot
-                    ${slot.on ? 'on' : 'off'}
+                    ${mode === 'off' ? 'off' : 'on'}
                     ${isSelected ? 'selected' : ''}
+                    ${wraps ? 'wraps' : ''}
                     ${slot.disabled ? 'disabled' : ''}"
                   style="left: ${left}%; width: ${width}%;"
-                  @click=${(evt: Event) => this._onTimeslotClick(evt, dayIndex, slotIndex)}
+                  role="button"
+                  tabindex=${slot.disabled ? -1 : 0}
+                  aria-label=${this._describeSlot(day, slot)}
+                  aria-pressed=${isSelected ? 'true' : 'false'}
+                  aria-keyshortcuts="ArrowLeft ArrowRight Shift+ArrowLeft Shift+ArrowRight Enter Delete"
+                  @keydown=${(evt: KeyboardEvent) => this._onTimeslotKeyDown(evt, dayIndex, slotIndex)}
+                  @blur=${this._endHistoryStep}
+                  @click=${(evt: MouseEvent) => this._onTimeslotClick(evt, dayIndex, slotIndex)}
                   @pointerdown=${(evt: PointerEvent) => this._onTrackPointerDown(evt, dayIndex, slotIndex)}
                   @pointermove=${this._onTrackPointerMove}
                   @pointerup=${this._onTrackPointerUp}
@@ -549,8 +2597,17 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
   
                 <!-- Left boundary -->
                 <div
-                  class="boundary ${isSelected ? 'selected-boundary' : ''}"
+                  class="boundary ${showBoundaries ? 'selected-boundary' : ''}"
                   style="left: ${left}%;"
+                  role="slider"
+                  tabindex=${showBoundaries ? 0 : -1}
+                  aria-label="Start of ${day.dayName} timeslot"
+                  aria-valuemin="0"
+                  aria-valuemax=${MINUTES_PER_DAY}
+                  aria-valuenow=${slot.start}
+                  aria-valuetext=${this._formatMinutes(slot.start)}
+                  @keydown=${(evt: KeyboardEvent) => this._onBoundaryKeyDown(evt, dayIndex, slotIndex, 'start')}
+                  @blur=${this._endHistoryStep}
                   @pointerdown=${(evt: PointerEvent) =>
                     this._onPointerDownBoundary(evt, dayIndex, slotIndex, 'start')}
                   @pointermove=${(evt: PointerEvent) =>
@@ -560,21 +2617,21 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
                   ...
                 ></div>
   
-                <!-- Right boundary -->
-                <div
-                  class="boundary ${isSelected ? 'selected-boundary' : ''}"
-                  style="left: ${left + width}%;"
-                  @pointerdown=${(evt: PointerEvent) =>
-                    this._onPointerDownBoundary(evt, dayIndex, slotIndex, 'end')}
-                  @pointermove=${(evt: PointerEvent) =>
-                    this._onPointerMoveBoundary(evt, dayIndex, slotIndex, 'end')}
-                  @pointerup=${(evt: PointerEvent) =>
-                    this._onPointerUpBoundary(evt, dayIndex, slotIndex, 'end')}
-                  ...
-                ></div>
+                <!-- Right boundary (on the next row for slots past midnight) -->
+                ${wraps ? null : this._renderEndBoundary(day, dayIndex, slotIndex, left + width, showBoundaries)}
+
+                <!-- Sun-anchored boundaries get their own marker -->
+                ${slot.startSun ? this._renderSunMarker(slot.startSun, left) : null}
+                ${slot.endSun && !wraps ? this._renderSunMarker(slot.endSun, left + width) : null}
               `;
             })}
+
+            <!-- The previous evening's slots that run past midnight into this row -->
+            ${this._wrappingIntoDay(dayIndex).map(ref => this._renderContinuation(ref))}
           </div>
+
+          <!-- What the entity actually did the last time it was this day -->
+          ${this._config?.show_history ? this._renderHistoryTrack(day.dayName) : null}
   
           <!-- Hour axis (0..24) -->
           <div class="hour-axis">
@@ -587,6 +2644,103 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
       </div>
     `;
   }
+  private _renderEndBoundary(
+    day: ApsleyDay,
+    dayIndex: number,
+    slotIndex: number,
+    left: number,
+    show: boolean
+  ): TemplateResult {
+    const slot = day.timeSlots[slotIndex];
+    return html`
+      <div
+        class="boundary ${show ? 'selected-boundary' : ''}"
+        style="left: ${left}%;"
+        role="slider"
+        tabindex=${show ? 0 : -1}
+        aria-label="End of ${day.dayName} timeslot"
+        aria-valuemin="0"
+        aria-valuemax=${MINUTES_PER_DAY}
+        aria-valuenow=${slot.end}
+        aria-valuetext=${this._formatMinutes(slot.end)}
+        @keydown=${(evt: KeyboardEvent) => this._onBoundaryKeyDown(evt, dayIndex, slotIndex, 'end')}
+        @blur=${this._endHistoryStep}
+        @pointerdown=${(evt: PointerEvent) =>
+          this._onPointerDownBoundary(evt, dayIndex, slotIndex, 'end')}
+        @pointermove=${(evt: PointerEvent) =>
+          this._onPointerMoveBoundary(evt, dayIndex, slotIndex, 'end')}
+        @pointerup=${(evt: PointerEvent) =>
+          this._onPointerUpBoundary(evt, dayIndex, slotIndex, 'end')}
+      ></div>
+    `;
+  }
+
+  // Slots of the day before that run past midnight, i.e. into this day's morning
+  private _wrappingIntoDay(dayIndex: number): SlotRef[] {
+    const prevIndex = (dayIndex + this._days.length - 1) % this._days.length;
+    const prev = this._days[prevIndex];
+    if (!prev || prevIndex === dayIndex) return [];
+    return prev.timeSlots
+      .map((slot, slotIndex) => ({ dayIndex: prevIndex, slotIndex, slot }))
+      .filter(({ slot }) => this._wraps(slot))
+      .map(({ dayIndex: di, slotIndex }) => ({ dayIndex: di, slotIndex }));
+  }
+
+  /**
+   * The after-midnight part of a slot, drawn at the start of the next row.
+   * It belongs to the slot on the previous day: clicking selects that slot,
+   * dragging moves it, and the slot's end boundary lives here.
+   */
+  private _renderContinuation(ref: SlotRef): TemplateResult {
+    const day = this._days[ref.dayIndex];
+    const slot = day.timeSlots[ref.slotIndex];
+    const width = (slot.end / MINUTES_PER_DAY) * 100;
+    const isSelected = this._isSlotSelected(ref.dayIndex, ref.slotIndex);
+    const mode = getSlotMode(this._adapter, slot);
+
+    return html`
+      <div
+        class="timeslot continuation ${mode === 'off' ? 'off' : 'on'} ${isSelected ? 'selected' : ''}"
+        style="left: 0%; width: ${width}%;"
+        aria-hidden="true"
+        @click=${(evt: MouseEvent) => this._onTimeslotClick(evt, ref.dayIndex, ref.slotIndex)}
+        @pointerdown=${(evt: PointerEvent) =>
+          this._onTrackPointerDown(evt, ref.dayIndex, ref.slotIndex, MINUTES_PER_DAY)}
+        @pointermove=${this._onTrackPointerMove}
+        @pointerup=${this._onTrackPointerUp}
+        @pointercancel=${this._onTrackPointerUp}
+        @pointerleave=${this._onTrackPointerUp}
+      >
+        <div class="value-badge">${mode === 'off' ? 'Off' : mode === 'on' ? 'On' : String(slot.value)}</div>
+      </div>
+      ${this._renderEndBoundary(day, ref.dayIndex, ref.slotIndex, width, isSelected && !this._multiSelection.length)}
+      ${slot.endSun ? this._renderSunMarker(slot.endSun, width) : null}
+    `;
+  }
+
+  // Gaps only show the default; clicks go through to the track to add a slot
+  private _renderGap(gap: TimeSlot): TemplateResult {
+    const mode = getSlotMode(this._adapter, gap);
+    return html`
+      <div
+        class="gap ${mode === 'off' ? 'off' : 'on'}"
+        style="left: ${(gap.start / MINUTES_PER_DAY) * 100}%; width: ${((gap.end - gap.start) / MINUTES_PER_DAY) * 100}%;"
+        aria-hidden="true"
+      >
+        <span class="gap-badge">${mode === 'off' ? 'Off' : mode === 'on' ? 'On' : String(gap.value)}</span>
+      </div>
+    `;
+  }
+
+  private _renderSunMarker(sun: SunAnchor, left: number): TemplateResult {
+    return html`
+      <div
+        class="sun-marker ${sun.event}"
+        style="left: ${left}%;"
+        title=${this._formatSunAnchor(sun)}
+      ></div>
+    `;
+  }
   private _renderNumericMarkers(): TemplateResult {
     // e.g. markers for 0..24
     return html`
@@ -645,27 +2799,97 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
       })}
     `;
   }
-  
-  private _setSlotMode(dayIndex: number, slotIndex: number, mode: 'off' | 'on' | 'value'): void {
+  
+  /**
+   * Pin a boundary to sunrise/sunset with an offset, or back to a fixed time
+   * (keeping where it currently sits on the track). Checked like a drag: the
+   * start stays before the end (a slot only runs past midnight if it already
+   * did) and the slot stays clear of its neighbours. Returns false, and
+   * announces why, when the change is blocked.
+   */
+  private _setBoundaryAnchor(
+    dayIndex: number,
+    slotIndex: number,
+    boundary: 'start' | 'end',
+    event: SunEvent | 'fixed',
+    offset = 0
+  ): boolean {
+    const key = boundary === 'start' ? 'startSun' : 'endSun';
+    const slot = this._days[dayIndex]?.timeSlots[slotIndex];
+    if (!slot) return false;
+
+    let updated: TimeSlot;
+    if (event === 'fixed') {
+      updated = { ...slot };
+      delete updated[key];
+    } else {
+      const sun = { event, offset };
+      updated = { ...slot, [key]: sun, [boundary]: this._resolveSunAnchor(sun) };
+    }
+
+    const at = this._formatMinutes(updated[boundary]);
+    if (updated.start === updated.end || this._wraps(updated) !== this._wraps(slot)) {
+      this._announcement = `Blocked: the ${boundary} would be at ${at}, the wrong side of the ${boundary === 'start' ? 'end' : 'start'}`;
+      return false;
+    }
+    if (this._wouldOverlap(dayIndex, slotIndex, updated.start, updated.end)) {
+      this._announcement = `Blocked: with the ${boundary} at ${at} it would overlap another timeslot`;
+      return false;
+    }
+
+    this._recordHistory();
+    this._days = this._days.map((day, di) => {
+      if (di !== dayIndex) return day;
+      return { ...day, timeSlots: day.timeSlots.map((s, si) => (si === slotIndex ? updated : s)) };
+    });
+    this._announcement = `${boundary === 'start' ? 'Start' : 'End'} at ${at}`;
+
+    this._resetFocusTimeout();
+    return true;
+  }
+
+  // A blocked anchor change leaves the bindings as they were, so Lit won't put the control back itself
+  private _onBoundaryAnchorChange(
+    e: Event,
+    boundary: 'start' | 'end',
+    event: SunEvent | 'fixed',
+    offset: number,
+    previous: string
+  ): void {
+    const ok = this._setBoundaryAnchor(this._selectedDayIndex!, this._selectedSlotIndex!, boundary, event, offset);
+    if (!ok) (e.currentTarget as HTMLInputElement | HTMLSelectElement).value = previous;
+  }
+
+  // Moving an anchored boundary moves its offset, so it stays sun-relative
+  private _shiftSunAnchor(sun: SunAnchor | undefined, delta: number): SunAnchor | undefined {
+    return sun ? { ...sun, offset: sun.offset + delta } : undefined;
+  }
+
+  private _slotWithMode(slot: TimeSlot, mode: SlotMode, adapter: DomainAdapter, range: ValueRange): TimeSlot {
+    if (mode === 'off') {
+      // Turn it off, set value=0
+      return { ...slot, on: false, value: 0 };
+    } else if (mode === 'on') {
+      // Turn on, but no slider => value=0
+      return { ...slot, on: true, value: 0 };
+    }
+    // mode === 'value'
+    // We'll keep the old value if it's > 0, otherwise use the adapter's default
+    const newVal = slot.value > 0 ? slot.value : adapter.defaultValue;
+    return { ...slot, on: true, value: clampToRange(newVal, range) };
+  }
+
+  private _setSlotMode(dayIndex: number, slotIndex: number, mode: SlotMode): void {
+    const adapter = this._adapter;
+    const range = this._valueRange;
+
+    this._recordHistory();
     this._days = this._days.map((day, di) => {
       if (di !== dayIndex) return day;
   
-      const newSlots = day.timeSlots.map((slot, si) => {
-        if (si !== slotIndex) return slot;
-  
-        if (mode === 'off') {
-          // Turn it off, set value=0
-          return { ...slot, on: false, value: 0 };
-        } else if (mode === 'on') {
-          // Turn on, but no slider => value=0
-          return { ...slot, on: true, value: 0 };
-        } else {
-          // mode === 'value'
-          // We'll keep the old value if it's > 0, otherwise default to 20
-          const newVal = slot.value > 0 ? slot.value : 20;
-          return { ...slot, on: true, value: newVal };
-        }
-      });
+      const newSlots = day.timeSlots.map((slot, si) =>
+        si === slotIndex ? this._slotWithMode(slot, mode, adapter, range) : slot
+      );
   
       return { ...day, timeSlots: newSlots };
     });
@@ -676,21 +2900,185 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
     }
   }
   
-  private _getAllowedModesForDomain(domain: string): Array<'off' | 'on' | 'value'> {
-    if (domain === 'climate') {
-      // Only show Off / Value
-      return ['off', 'value'];
-    } else if (domain === 'light') {
-      // Off / On / Value
-      return ['off', 'on', 'value'];
-    } else if (domain === 'switch') {
-      // Off / On
-      return ['off', 'on'];
-    }
-    // Default fallback
-    return ['off', 'on'];
+  private _renderBoundaryAnchorRow(label: string, boundary: 'start' | 'end', sun?: SunAnchor): TemplateResult {
+    return html`
+      <div class="option-row">
+        <span>${label}:</span>
+        <select
+          .value=${sun?.event ?? 'fixed'}
+          @change=${(e: Event) => this._onBoundaryAnchorChange(
+            e,
+            boundary,
+            (e.currentTarget as HTMLSelectElement).value as SunEvent | 'fixed',
+            0,
+            sun?.event ?? 'fixed'
+          )}
+        >
+          <option value="fixed">Fixed time</option>
+          <option value="sunrise">Sunrise</option>
+          <option value="sunset">Sunset</option>
+        </select>
+        ${sun
+          ? html`
+              <input
+                class="sun-offset"
+                type="number"
+                step=${this.minutesPerInterval}
+                .value=${String(sun.offset)}
+                @change=${(e: Event) => this._onBoundaryAnchorChange(
+                  e,
+                  boundary,
+                  sun.event,
+                  parseInt((e.currentTarget as HTMLInputElement).value, 10) || 0,
+                  String(sun.offset)
+                )}
+              />
+              <span>min</span>
+            `
+          : null}
+      </div>
+    `;
+  }
+
+  // A condition the scheduler can evaluate: an entity, and a value (a number for below/above)
+  private _isCompleteCondition(condition: ScheduleCondition): boolean {
+    if (!condition.entity_id.trim() || condition.value === '') return false;
+    const numeric = condition.match_type === 'below' || condition.match_type === 'above';
+    return !numeric || typeof condition.value === 'number';
+  }
+
+  // Only the complete conditions of a set, or undefined if none are
+  private _completeConditions(set: ConditionSet | undefined): ConditionSet | undefined {
+    const conditions = set?.conditions.filter(condition => this._isCompleteCondition(condition)) ?? [];
+    return set && conditions.length ? { logic: set.logic, conditions } : undefined;
+  }
+
+  // Entity ids offered by the condition inputs, rebuilt only when entities come or go
+  private _conditionEntityIds: string[] = [];
+
+  private _renderConditionEntityList(): TemplateResult {
+    const entityIds = Object.keys(this.hass?.states ?? {});
+    if (entityIds.length !== this._conditionEntityIds.length) this._conditionEntityIds = entityIds;
+
+    return html`
+      <datalist id="condition-entities">
+        ${guard([this._conditionEntityIds], () =>
+          this._conditionEntityIds.map(entityId => html`<option value=${entityId}></option>`))}
+      </datalist>
+    `;
+  }
+
+  /**
+   * Editor for a ConditionSet: all/any, then one row per condition with
+   * entity, comparison and value. `onChange(undefined)` clears it.
+   */
+  private _renderConditionsEditor(
+    title: string,
+    set: ConditionSet | undefined,
+    onChange: (set: ConditionSet | undefined) => void
+  ): TemplateResult {
+    const conditions = set?.conditions ?? [];
+    const logic = set?.logic ?? 'and';
+    const update = (next: ScheduleCondition[], nextLogic = logic) =>
+      onChange(next.length ? { logic: nextLogic, conditions: next } : undefined);
+    const updateAt = (index: number, changes: Partial<ScheduleCondition>) =>
+      update(conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+
+    return html`
+      <div class="conditions">
+        <div class="option-row">
+          <span>${title}</span>
+          ${conditions.length > 1
+            ? html`
+                <select
+                  .value=${logic}
+                  @change=${(e: Event) =>
+                    update(conditions, (e.currentTarget as HTMLSelectElement).value as 'and' | 'or')}
+                >
+                  <option value="and">All must match</option>
+                  <option value="or">Any may match</option>
+                </select>
+              `
+            : null}
+        </div>
+        ${conditions.map((condition, index) => html`
+          <div
+            class="option-row condition-row ${this._isCompleteCondition(condition) ? '' : 'incomplete'}"
+            title=${this._isCompleteCondition(condition) ? '' : 'Incomplete, this condition will not be synced'}
+          >
+            <input
+              class="condition-entity"
+              list="condition-entities"
+              placeholder="entity_id"
+              .value=${condition.entity_id}
+              @change=${(e: Event) => updateAt(index, { entity_id: (e.currentTarget as HTMLInputElement).value })}
+            />
+            <select
+              .value=${condition.match_type}
+              @change=${(e: Event) =>
+                updateAt(index, {
+                  match_type: (e.currentTarget as HTMLSelectElement).value as ScheduleCondition['match_type'],
+                })}
+            >
+              <option value="is">is</option>
+              <option value="not">is not</option>
+              <option value="below">below</option>
+              <option value="above">above</option>
+            </select>
+            <input
+              class="condition-value"
+              placeholder="value"
+              .value=${String(condition.value)}
+              @change=${(e: Event) => {
+                const raw = (e.currentTarget as HTMLInputElement).value;
+                // below/above compare numbers, is/not compare states
+                const numeric = condition.match_type === 'below' || condition.match_type === 'above';
+                updateAt(index, { value: numeric && raw !== '' && !isNaN(Number(raw)) ? Number(raw) : raw });
+              }}
+            />
+            <button class="condition-remove" title="Remove" @click=${() =>
+              update(conditions.filter((_, i) => i !== index))}>✕</button>
+          </div>
+        `)}
+        <div class="option-row">
+          <mwc-button
+            outlined
+            .label=${'Add condition'}
+            @click=${() => update([...conditions, { entity_id: '', match_type: 'is', value: '' }])}
+          ></mwc-button>
+        </div>
+      </div>
+    `;
+  }
+
+  private _setDayConditions(dayIndex: number, conditions: ConditionSet | undefined): void {
+    this._recordHistory();
+    this._days = this._days.map((day, di) => {
+      if (di !== dayIndex) return day;
+      const updated = { ...day, conditions };
+      if (!conditions) delete updated.conditions;
+      return updated;
+    });
+    this._resetFocusTimeout();
+  }
+
+  private _setSlotConditions(dayIndex: number, slotIndex: number, conditions: ConditionSet | undefined): void {
+    this._recordHistory();
+    this._days = this._days.map((day, di) => {
+      if (di !== dayIndex) return day;
+      const newSlots = day.timeSlots.map((slot, si) => {
+        if (si !== slotIndex) return slot;
+        const updated = { ...slot, conditions };
+        if (!conditions) delete updated.conditions;
+        return updated;
+      });
+      return { ...day, timeSlots: newSlots };
+    });
+    this._resetFocusTimeout();
   }
+
   private _renderOptionsPanel(): TemplateResult {
+    if (this._multiSelection.length > 1) return this._renderBatchPanel();
     if (this._selectedDayIndex == null || this._selectedSlotIndex == null) return html``;
     const dayEntry = this._days[this._selectedDayIndex];
     if (!dayEntry) return html``;
@@ -698,262 +3086,1096 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
     const slot = dayEntry.timeSlots[this._selectedSlotIndex];
     if (!slot) return html``;
   
-    // Convert intervals to "HH:MM"
-    const startLabel = this._formatIntervals(slot.start);
-    const endLabel   = this._formatIntervals(slot.end);
+    // Convert minutes to "HH:MM", with the sun event for anchored boundaries
+    const startLabel = slot.startSun
+      ? `${this._formatSunAnchor(slot.startSun)} (${this._formatMinutes(slot.start)})`
+      : this._formatMinutes(slot.start);
+    const endLabel = (slot.endSun
+      ? `${this._formatSunAnchor(slot.endSun)} (${this._formatMinutes(slot.end)})`
+      : this._formatMinutes(slot.end)) + (this._wraps(slot) ? ' (+1 day)' : '');
+  
+    // The domain adapter decides modes, slider label and range
+    const adapter = this._adapter;
+    const allowedModes = adapter.modes;
+    const sliderLabel = adapter.label ?? '';
+    const range = this._valueRange;
+
+    // Determine the current mode
+    const currentMode = getSlotMode(adapter, slot);
+  
+    // We'll only show the slider if domain supports "value"
+    // and the user selected "value" mode
+    const supportsValue = allowedModes.includes('value');
+    const showSlider = supportsValue && (currentMode === 'value');
+  
+    return html`
+      <div class="options-panel">
+        <div class="option-row">
+          <span class="day-display">${dayEntry.dayName}</span>
+          <span class="time-display">${startLabel} - ${endLabel}</span>
+        </div>
+
+        <!-- Fixed time or sunrise/sunset + offset for each boundary -->
+        ${this._renderBoundaryAnchorRow('Start', 'start', slot.startSun)}
+        ${this._renderBoundaryAnchorRow('End', 'end', slot.endSun)}
+  
+        <!-- Render each allowed mode as a button -->
+        <div class="option-row">
+          ${allowedModes.map(mode => {
+            // e.g. mode could be 'off', 'on', or 'value'
+            // We label the button accordingly:
+            const buttonLabel = (mode === 'off')
+              ? 'Off'
+              : (mode === 'on')
+                ? 'On'
+                : 'Value';
+  
+            // Check if this is the active mode
+            const isActive = (currentMode === mode);
+  
+            return html`
+              <mwc-button
+                .label=${buttonLabel}
+                ?unelevated=${isActive}
+                ?outlined=${!isActive}
+                @click=${() => this._setSlotMode(this._selectedDayIndex!, this._selectedSlotIndex!, mode)}
+              >
+              </mwc-button>
+            `;
+          })}
+        </div>
+  
+        <!-- If in "value" mode and domain supports it, show the slider -->
+        ${showSlider
+          ? html`
+              <div class="option-row">
+                <span>${sliderLabel}:</span>
+                <input
+                  type="range"
+                  min=${range.min}
+                  max=${range.max}
+                  step=${range.step}
+                  .value=${String(slot.value)}
+                  @input=${(e: Event) => {
+                    const target = e.currentTarget as HTMLInputElement;
+                    this._updateSlotValue(
+                      this._selectedDayIndex!,
+                      this._selectedSlotIndex!,
+                      parseFloat(target.value)
+                    );
+                  }}
+                  @change=${this._endHistoryStep}
+                />
+                <span class="value-display">${slot.value}${adapter.unit ?? ''}</span>
+              </div>
+            `
+          : null}
+  
+        <!-- Conditions: for the whole day, or just this slot -->
+        ${this._renderConditionEntityList()}
+        ${this._renderConditionsEditor(
+          `Conditions for ${dayEntry.dayName}`,
+          dayEntry.conditions,
+          (set) => this._setDayConditions(this._selectedDayIndex!, set)
+        )}
+        ${this._renderConditionsEditor(
+          'Conditions for this timeslot (override the day)',
+          slot.conditions,
+          (set) => this._setSlotConditions(this._selectedDayIndex!, this._selectedSlotIndex!, set)
+        )}
+
+        <!-- Split in two, or join a touching neighbour that does the same -->
+        ${this._renderSplitMergeRows(this._selectedDayIndex, this._selectedSlotIndex)}
+
+        <!-- Delete Button -->
+        <div class="option-row">
+          <mwc-button
+            outlined
+            @click=${() => this._deleteSlot(this._selectedDayIndex!, this._selectedSlotIndex!)}
+          >
+            Delete Timeslot
+          </mwc-button>
+        </div>
+      </div>
+    `;
+  }
+  
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Selection + focus timeout
+  // ────────────────────────────────────────────────────────────────────────────
+  private get selectionTimeout(): number {
+    // Guaranteed to be set from setConfig(), or fallback if needed
+    return this._config?.selection_timeout ?? 25000;
+  }
+  private _clearSelectionAfterDelay(): void {
+    if (this._focusTimeout !== null) {
+      clearTimeout(this._focusTimeout);
+    }
+    this._focusTimeout = window.setTimeout(() => {
+      this._selectedDayIndex = null;
+      this._selectedSlotIndex = null;
+      this._multiSelection = [];
+      this._focusTimeout = null;
+    }, this.selectionTimeout);
+  }
   
-    // Figure out domain
-    const domain = this.getEntityDomain(this._config!.entity!);
-    // Which modes are allowed for this domain?
-    const allowedModes = this._getAllowedModesForDomain(domain);
+  private _selectTimeslot(dayIndex: number, slotIndex: number): void {
+    this._selectedDayIndex = dayIndex;
+    this._selectedSlotIndex = slotIndex;
+    this._multiSelection = [];
+    this._splitAt = null;
+    this._resetFocusTimeout();
+  }
+
+  private _isSlotSelected(dayIndex: number, slotIndex: number): boolean {
+    if (this._multiSelection.length) {
+      return this._multiSelection.some(ref => ref.dayIndex === dayIndex && ref.slotIndex === slotIndex);
+    }
+    return this._selectedDayIndex === dayIndex && this._selectedSlotIndex === slotIndex;
+  }
+
+  /**
+   * Replace the selection with the given slots. A single slot becomes the
+   * normal selection; more than one opens the batch panel.
+   */
+  private _setSelection(refs: SlotRef[]): void {
+    const last = refs[refs.length - 1];
+    this._selectedDayIndex = last ? last.dayIndex : null;
+    this._selectedSlotIndex = last ? last.slotIndex : null;
+    this._multiSelection = refs.length > 1 ? refs : [];
+    this._splitAt = null;
+    if (refs.length) this._resetFocusTimeout();
+  }
+
+  // Shift/Ctrl-click: add the slot to the selection, or take it out again
+  private _toggleInSelection(dayIndex: number, slotIndex: number): void {
+    const current: SlotRef[] = this._multiSelection.length
+      ? this._multiSelection
+      : this._selectedDayIndex !== null && this._selectedSlotIndex !== null
+        ? [{ dayIndex: this._selectedDayIndex, slotIndex: this._selectedSlotIndex }]
+        : [];
+    const isIn = current.some(ref => ref.dayIndex === dayIndex && ref.slotIndex === slotIndex);
+    this._setSelection(isIn
+      ? current.filter(ref => ref.dayIndex !== dayIndex || ref.slotIndex !== slotIndex)
+      : [...current, { dayIndex, slotIndex }]);
+  }
   
-    // Slider label
-    let sliderLabel = '';
-    if (domain === 'climate') {
-      sliderLabel = 'Temperature';
-    } else if (domain === 'light') {
-      sliderLabel = 'Brightness';
+  private _resetFocusTimeout(): void {
+    if (this._focusTimeout !== null) {
+      clearTimeout(this._focusTimeout);
     }
+    this._focusTimeout = window.setTimeout(() => {
+      this._selectedDayIndex = null;
+      this._selectedSlotIndex = null;
+      this._multiSelection = [];
+      this._focusTimeout = null;
+    }, this.selectionTimeout);
+  }
   
-    // Determine the current mode
-    let currentMode: 'off' | 'on' | 'value';
-    if (!slot.on) {
-      currentMode = 'off';
-    } else {
-      currentMode = slot.value > 0 ? 'value' : 'on';
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Click on empty track => add new slot (2 hours)
+  // ────────────────────────────────────────────────────────────────────────────
+  private _onTrackClick(e: MouseEvent, dayIndex: number): void {
+    // If click was on a child element (like the timeslot or boundary), ignore
+    if (e.target !== e.currentTarget) return;
+    if (this._suppressTrackClick) {
+      this._suppressTrackClick = false;
+      return;
+    }
+  
+    const trackRect = (
+      this.renderRoot.querySelectorAll('.track')[dayIndex] as HTMLElement
+    )?.getBoundingClientRect();
+    if (!trackRect) return;
+  
+    const clickX = e.clientX - trackRect.left;
+    // Convert to fraction across track
+    const frac = clickX / trackRect.width;
+    // Convert fraction → minutes, snapped down to the time_step grid
+    const step = this.minutesPerInterval;
+    const slotStart = Math.min(Math.floor((frac * MINUTES_PER_DAY) / step) * step, MINUTES_PER_DAY - step);
+    // Default new slot = 2 hours, running on past midnight if it starts late
+    const defaultLength = 120;
+    const slotEnd = this._wrapEnd(slotStart + defaultLength);
+  
+    // Check for overlap, including last night's slot and tomorrow morning
+    const day = this._days[dayIndex];
+    const overlaps = this._wouldOverlap(dayIndex, -1, slotStart, slotEnd);
+    if (!overlaps) {
+      const newSlots = [...day.timeSlots];
+      newSlots.push({
+        start: slotStart,
+        end: slotEnd,
+        on: true,
+        // Only domains with a slider get a value, so the slot round-trips through sync
+        value: this._adapter.modes.includes('value') ? clampToRange(this._adapter.defaultValue, this._valueRange) : 0,
+      });
+      this._recordHistory();
+      this._days = this._days.map((d, i) =>
+        i === dayIndex ? { ...d, timeSlots: newSlots } : d
+      );
+      // Select new slot
+      this._selectTimeslot(dayIndex, newSlots.length - 1);
+    }
+  }
+
+  private _onTimeslotClick(e: MouseEvent, dayIndex: number, slotIndex: number): void {
+    e.stopPropagation();
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      this._toggleInSelection(dayIndex, slotIndex);
+      return;
+    }
+    this._selectTimeslot(dayIndex, slotIndex);
+  }
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this._clockTimer = window.setInterval(() => this._onClockTick(), 30000);
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    if (this._focusTimeout !== null) {
+      clearTimeout(this._focusTimeout);
+    }
+    if (this._clockTimer !== null) {
+      clearInterval(this._clockTimer);
+      this._clockTimer = null;
+    }
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Multi-select: rubber band and batch edits
+  // ────────────────────────────────────────────────────────────────────────────
+  // A band starts on empty track or the space between rows, never on a slot
+  private _onBandPointerDown(e: PointerEvent): void {
+    const target = e.target as HTMLElement;
+    if (!target.classList.contains('track') && !target.classList.contains('days-container')) return;
+    this._bandOrigin = { x: e.clientX, y: e.clientY, pointerId: e.pointerId };
+  }
+
+  private _onBandPointerMove(e: PointerEvent): void {
+    const origin = this._bandOrigin;
+    if (!origin || origin.pointerId !== e.pointerId) return;
+    // A few pixels of wobble is still a click on the track
+    if (!this._band && Math.hypot(e.clientX - origin.x, e.clientY - origin.y) < 6) return;
+
+    const container = e.currentTarget as HTMLElement;
+    if (!this._band) container.setPointerCapture(e.pointerId);
+    const rect = container.getBoundingClientRect();
+    this._band = {
+      x1: origin.x - rect.left,
+      y1: origin.y - rect.top,
+      x2: e.clientX - rect.left,
+      y2: e.clientY - rect.top,
+    };
+  }
+
+  // Select every slot the band touches
+  private _onBandPointerUp(e: PointerEvent): void {
+    const band = this._band;
+    this._bandOrigin = null;
+    if (!band) return;
+
+    const container = e.currentTarget as HTMLElement;
+    container.releasePointerCapture(e.pointerId);
+    const rect = container.getBoundingClientRect();
+    const left = rect.left + Math.min(band.x1, band.x2);
+    const right = rect.left + Math.max(band.x1, band.x2);
+    const top = rect.top + Math.min(band.y1, band.y2);
+    const bottom = rect.top + Math.max(band.y1, band.y2);
+
+    const refs: SlotRef[] = [];
+    this.renderRoot.querySelectorAll('.track').forEach((track, dayIndex) => {
+      track.querySelectorAll('.timeslot:not(.continuation)').forEach((el, slotIndex) => {
+        const r = el.getBoundingClientRect();
+        if (r.width && r.left < right && left < r.right && r.top < bottom && top < r.bottom) {
+          refs.push({ dayIndex, slotIndex });
+        }
+      });
+    });
+
+    this._band = null;
+    this._suppressTrackClick = true;
+    // The click may land outside a track and never reach _onTrackClick
+    setTimeout(() => (this._suppressTrackClick = false));
+    this._setSelection(refs);
+  }
+
+  /**
+   * Apply `fn` to every slot in the multi-selection as one undo step.
+   */
+  private _updateSelectedSlots(fn: (slot: TimeSlot) => TimeSlot, historyKey?: string): void {
+    const refs = this._multiSelection;
+    this._recordHistory(historyKey);
+    this._days = this._days.map((day, di) => {
+      if (!refs.some(ref => ref.dayIndex === di)) return day;
+      const newSlots = day.timeSlots.map((slot, si) =>
+        refs.some(ref => ref.dayIndex === di && ref.slotIndex === si) ? fn(slot) : slot
+      );
+      return { ...day, timeSlots: newSlots };
+    });
+    this._resetFocusTimeout();
+  }
+
+  private _setSelectionMode(mode: SlotMode): void {
+    const adapter = this._adapter;
+    const range = this._valueRange;
+    this._updateSelectedSlots(slot => this._slotWithMode(slot, mode, adapter, range));
+  }
+
+  private _setSelectionValue(value: number): void {
+    this._updateSelectedSlots(slot => ({ ...slot, on: true, value }), 'batch-value');
+  }
+
+  /**
+   * Move every selected slot by `delta` minutes. Either all of them fit
+   * (inside the day, no overlaps with each other or the rest) or none move.
+   */
+  private _shiftSelection(delta: number): void {
+    const refs = this._multiSelection;
+    // Ends may move past midnight (or back), starts must stay within their day
+    const shift = (slot: TimeSlot): TimeSlot => ({
+      ...slot,
+      start: slot.start + delta,
+      end: this._wrapEnd(this._extendedEnd(slot.start, slot.end) + delta),
+      startSun: this._shiftSunAnchor(slot.startSun, delta),
+      endSun: this._shiftSunAnchor(slot.endSun, delta),
+    });
+    const moved = this._days.map((day, di) => ({
+      ...day,
+      timeSlots: day.timeSlots.map((slot, si) =>
+        refs.some(ref => ref.dayIndex === di && ref.slotIndex === si) ? shift(slot) : slot
+      ),
+    }));
+    const blocked = moved.some((day, di) =>
+      day.timeSlots.some((slot, si) =>
+        slot.start < 0 || slot.start >= MINUTES_PER_DAY || slot.end <= 0 ||
+        this._wouldOverlap(di, si, slot.start, slot.end, moved)
+      )
+    );
+    if (blocked) {
+      this._announcement = 'Blocked by another timeslot or the end of the day';
+      return;
     }
-  
-    // We'll only show the slider if domain supports "value"
-    // and the user selected "value" mode
-    const supportsValue = allowedModes.includes('value');
-    const showSlider = supportsValue && (currentMode === 'value');
-  
+
+    this._updateSelectedSlots(shift);
+  }
+
+  private _deleteSelection(): void {
+    const refs = this._multiSelection;
+    this._recordHistory();
+    this._days = this._days.map((day, di) => ({
+      ...day,
+      timeSlots: day.timeSlots.filter((_, si) => !refs.some(ref => ref.dayIndex === di && ref.slotIndex === si)),
+    }));
+    this._announcement = `Deleted ${refs.length} timeslots`;
+    this._setSelection([]);
+  }
+
+  private _renderBatchPanel(): TemplateResult {
+    const refs = this._multiSelection;
+    const slots = refs
+      .map(ref => this._days[ref.dayIndex]?.timeSlots[ref.slotIndex])
+      .filter((slot): slot is TimeSlot => !!slot);
+    const adapter = this._adapter;
+    const range = this._valueRange;
+    const modes = slots.map(slot => getSlotMode(adapter, slot));
+    // Only show a mode as active when every selected slot is in it
+    const sharedMode = modes.every(mode => mode === modes[0]) ? modes[0] : null;
+    const step = this.minutesPerInterval;
+
     return html`
       <div class="options-panel">
         <div class="option-row">
-          <span class="day-display">${dayEntry.dayName}</span>
-          <span class="time-display">${startLabel} - ${endLabel}</span>
+          <span class="day-display">${slots.length} timeslots selected</span>
+          <mwc-button dense .label=${'Clear selection'} @click=${() => this._setSelection([])}></mwc-button>
         </div>
-  
-        <!-- Render each allowed mode as a button -->
+
         <div class="option-row">
-          ${allowedModes.map(mode => {
-            // e.g. mode could be 'off', 'on', or 'value'
-            // We label the button accordingly:
-            const buttonLabel = (mode === 'off')
-              ? 'Off'
-              : (mode === 'on')
-                ? 'On'
-                : 'Value';
-  
-            // Check if this is the active mode
-            const isActive = (currentMode === mode);
-  
-            return html`
-              <mwc-button
-                .label=${buttonLabel}
-                ?unelevated=${isActive}
-                ?outlined=${!isActive}
-                @click=${() => this._setSlotMode(this._selectedDayIndex!, this._selectedSlotIndex!, mode)}
-              >
-              </mwc-button>
-            `;
-          })}
+          ${adapter.modes.map(mode => html`
+            <mwc-button
+              .label=${mode === 'off' ? 'Off' : mode === 'on' ? 'On' : 'Value'}
+              ?unelevated=${sharedMode === mode}
+              ?outlined=${sharedMode !== mode}
+              @click=${() => this._setSelectionMode(mode)}
+            ></mwc-button>
+          `)}
         </div>
-  
-        <!-- If in "value" mode and domain supports it, show the slider -->
-        ${showSlider
+
+        ${adapter.modes.includes('value')
           ? html`
               <div class="option-row">
-                <span>${sliderLabel}:</span>
+                <span>${adapter.label ?? 'Value'}:</span>
                 <input
                   type="range"
-                  min="1"
-                  max="100"
-                  step="1"
-                  .value=${String(slot.value)}
-                  @input=${(e: Event) => {
-                    const target = e.currentTarget as HTMLInputElement;
-                    this._updateSlotValue(
-                      this._selectedDayIndex!,
-                      this._selectedSlotIndex!,
-                      parseInt(target.value, 10)
-                    );
-                  }}
+                  min=${range.min}
+                  max=${range.max}
+                  step=${range.step}
+                  .value=${String(sharedMode === 'value' && slots.length ? slots[0].value : adapter.defaultValue)}
+                  @input=${(e: Event) => this._setSelectionValue(parseFloat((e.currentTarget as HTMLInputElement).value))}
+                  @change=${this._endHistoryStep}
                 />
-                <span class="value-display">${slot.value}</span>
+                <span class="value-display">
+                  ${sharedMode === 'value' && slots.every(slot => slot.value === slots[0].value)
+                    ? `${slots[0].value}${adapter.unit ?? ''}`
+                    : 'mixed'}
+                </span>
               </div>
             `
           : null}
-  
-        <!-- Delete Button -->
+
         <div class="option-row">
-          <mwc-button
-            outlined
-            @click=${() => this._deleteSlot(this._selectedDayIndex!, this._selectedSlotIndex!)}
-          >
-            Delete Timeslot
-          </mwc-button>
+          <span>Shift:</span>
+          <mwc-button dense .label=${`−${this._formatMinutes(step)}`} @click=${() => this._shiftSelection(-step)}></mwc-button>
+          <mwc-button dense .label=${`+${this._formatMinutes(step)}`} @click=${() => this._shiftSelection(step)}></mwc-button>
+        </div>
+
+        <div class="option-row">
+          <mwc-button outlined .label=${'Delete selected'} @click=${this._deleteSelection}></mwc-button>
         </div>
       </div>
     `;
   }
-  
 
   // ────────────────────────────────────────────────────────────────────────────
-  // Selection + focus timeout
+  // Keyboard
   // ────────────────────────────────────────────────────────────────────────────
-  private get selectionTimeout(): number {
-    // Guaranteed to be set from setConfig(), or fallback if needed
-    return this._config?.selection_timeout ?? 25000;
+  // What a screen reader says for a slot: day, times, mode and value
+  private _describeSlot(day: ApsleyDay, slot: TimeSlot): string {
+    const adapter = this._adapter;
+    const mode = getSlotMode(adapter, slot);
+    const state = mode === 'value' ? `${adapter.label ?? 'Value'} ${slot.value}${adapter.unit ?? ''}` : mode;
+    const nextDay = this._wraps(slot) ? ' the next day' : '';
+    return `${day.dayName}, ${this._formatMinutes(slot.start)} to ${this._formatMinutes(slot.end)}${nextDay}, ${state}`;
   }
-  private _clearSelectionAfterDelay(): void {
-    if (this._focusTimeout !== null) {
-      clearTimeout(this._focusTimeout);
-    }
-    this._focusTimeout = window.setTimeout(() => {
+
+  /**
+   * Arrows move the slot by one time_step, Shift+arrows move its end,
+   * Enter/Space select it (opening the options panel), Delete removes it.
+   */
+  private _onTimeslotKeyDown(e: KeyboardEvent, dayIndex: number, slotIndex: number): void {
+    const step = this.minutesPerInterval;
+    const direction = e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowRight' ? 1 : 0;
+
+    if (direction && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      if (e.shiftKey) {
+        this._nudgeSlot(dayIndex, slotIndex, 0, direction * step);
+      } else {
+        this._nudgeSlot(dayIndex, slotIndex, direction * step, direction * step);
+      }
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      this._selectTimeslot(dayIndex, slotIndex);
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      const day = this._days[dayIndex];
+      this._deleteSlot(dayIndex, slotIndex);
+      this._announcement = `Deleted ${day.dayName} timeslot`;
+    } else if (e.key === 'Escape' && this._isSlotSelected(dayIndex, slotIndex)) {
       this._selectedDayIndex = null;
       this._selectedSlotIndex = null;
-      this._focusTimeout = null;
-    }, this.selectionTimeout);
+      this._multiSelection = [];
+    }
   }
-  
-  private _selectTimeslot(dayIndex: number, slotIndex: number): void {
-    this._selectedDayIndex = dayIndex;
-    this._selectedSlotIndex = slotIndex;
-    this._resetFocusTimeout();
+
+  // Arrows on a focused boundary move just that boundary
+  private _onBoundaryKeyDown(e: KeyboardEvent, dayIndex: number, slotIndex: number, boundary: 'start' | 'end'): void {
+    const direction = e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowRight' ? 1 : 0;
+    if (!direction || e.ctrlKey || e.metaKey) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    const delta = direction * this.minutesPerInterval;
+    this._nudgeSlot(dayIndex, slotIndex, boundary === 'start' ? delta : 0, boundary === 'end' ? delta : 0);
   }
-  
-  private _resetFocusTimeout(): void {
-    if (this._focusTimeout !== null) {
-      clearTimeout(this._focusTimeout);
+
+  /**
+   * Shift a slot's start and end by the given minutes, keeping it inside the
+   * day, at least one time_step long and clear of other slots. Repeated
+   * nudges of the same slot are one undo step until it loses focus.
+   */
+  private _nudgeSlot(dayIndex: number, slotIndex: number, deltaStart: number, deltaEnd: number): void {
+    const day = this._days[dayIndex];
+    const slot = day?.timeSlots[slotIndex];
+    if (!slot) return;
+
+    // Work on the extended end so the end can be nudged past midnight and back
+    const start = slot.start + deltaStart;
+    const endExt = this._extendedEnd(slot.start, slot.end) + deltaEnd;
+    if (start < 0 || start >= MINUTES_PER_DAY) return;
+    if (endExt - start < this.minutesPerInterval || endExt - start > MINUTES_PER_DAY) return;
+    const end = this._wrapEnd(endExt);
+    if (this._wouldOverlap(dayIndex, slotIndex, start, end)) {
+      this._announcement = 'Blocked by another timeslot';
+      return;
     }
-    this._focusTimeout = window.setTimeout(() => {
+
+    this._recordHistory(`keyboard:${dayIndex}:${slotIndex}`);
+    this._days = this._days.map((d, di) => {
+      if (di !== dayIndex) return d;
+      const newSlots = d.timeSlots.map((s, si) => {
+        if (si !== slotIndex) return s;
+        return {
+          ...s,
+          start,
+          end,
+          startSun: this._shiftSunAnchor(s.startSun, deltaStart),
+          endSun: this._shiftSunAnchor(s.endSun, deltaEnd),
+        };
+      });
+      return { ...d, timeSlots: newSlots };
+    });
+    this._announcement = `${this._formatMinutes(start)} to ${this._formatMinutes(end)}`;
+
+    if (this._selectedDayIndex === dayIndex && this._selectedSlotIndex === slotIndex) {
+      this._resetFocusTimeout();
+    }
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Toggle / Value / Delete
+  // ────────────────────────────────────────────────────────────────────────────
+  private _toggleSlotOnOff(dayIndex: number, slotIndex: number) {
+    if (this._selectedDayIndex === dayIndex && this._selectedSlotIndex === slotIndex) {
+      this._resetFocusTimeout();
+    }
+    this._recordHistory();
+    this._days = this._days.map((day, di) => {
+      if (di !== dayIndex) return day;
+      const newSlots = day.timeSlots.map((slot, si) => {
+        if (si !== slotIndex) return slot;
+        return { ...slot, on: !slot.on };
+      });
+      return { ...day, timeSlots: newSlots };
+    });
+  }
+
+  private _updateSlotValue(dayIndex: number, slotIndex: number, newValue: number) {
+    if (this._selectedDayIndex === dayIndex && this._selectedSlotIndex === slotIndex) {
+      this._resetFocusTimeout();
+    }
+    // One slider move is one step, however many input events it fires
+    this._recordHistory(`value:${dayIndex}:${slotIndex}`);
+    this._days = this._days.map((day, di) => {
+      if (di !== dayIndex) return day;
+      const newSlots = day.timeSlots.map((slot, si) => {
+        if (si !== slotIndex) return slot;
+        return { ...slot, value: newValue };
+      });
+      return { ...day, timeSlots: newSlots };
+    });
+  }
+
+  private _deleteSlot(dayIndex: number, slotIndex: number) {
+    this._recordHistory();
+    this._days = this._days.map((day, di) => {
+      if (di !== dayIndex) return day;
+      const newSlots = day.timeSlots.filter((_, si) => si !== slotIndex);
+      return { ...day, timeSlots: newSlots };
+    });
+
+    if (this._selectedDayIndex === dayIndex && this._selectedSlotIndex === slotIndex) {
       this._selectedDayIndex = null;
       this._selectedSlotIndex = null;
-      this._focusTimeout = null;
-    }, this.selectionTimeout);
+    }
+    this._multiSelection = [];
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Split / merge
+  // ────────────────────────────────────────────────────────────────────────────
+  // Default split point: the middle of the slot, on the time_step grid
+  private _defaultSplitPoint(slot: TimeSlot): number {
+    return this._snapMinutes((slot.start + this._extendedEnd(slot.start, slot.end)) / 2) % MINUTES_PER_DAY;
+  }
+
+  // A time of day inside the slot, in extended minutes (after midnight = +24:00), or null
+  private _splitPointInSlot(slot: TimeSlot, at: number): number | null {
+    const atExt = at < slot.start ? at + MINUTES_PER_DAY : at;
+    return atExt > slot.start && atExt < this._extendedEnd(slot.start, slot.end) ? atExt : null;
+  }
+
+  /**
+   * Cut a slot in two at `at` minutes. Both halves keep the mode, value and
+   * conditions; the first keeps the start anchor, the second the end anchor.
+   */
+  private _splitSlot(dayIndex: number, slotIndex: number, at: number): void {
+    const slot = this._days[dayIndex]?.timeSlots[slotIndex];
+    const atExt = slot ? this._splitPointInSlot(slot, at) : null;
+    if (!slot || atExt === null) return;
+
+    const first: TimeSlot = { ...slot, end: this._wrapEnd(atExt) };
+    delete first.endSun;
+    // Split after midnight, the second half starts on the next day
+    const secondDayIndex = atExt >= MINUTES_PER_DAY ? (dayIndex + 1) % this._days.length : dayIndex;
+    const second: TimeSlot = { ...slot, start: atExt % MINUTES_PER_DAY };
+    delete second.startSun;
+
+    this._recordHistory();
+    this._days = this._days.map((day, di) => {
+      if (di !== dayIndex && di !== secondDayIndex) return day;
+      const newSlots = [...day.timeSlots];
+      if (di === dayIndex) newSlots.splice(slotIndex, 1, first);
+      if (di === secondDayIndex) {
+        if (di === dayIndex) {
+          newSlots.splice(slotIndex + 1, 0, second);
+        } else {
+          newSlots.push(second);
+        }
+      }
+      return { ...day, timeSlots: newSlots };
+    });
+    this._splitAt = null;
+    this._resetFocusTimeout();
+  }
+
+  /**
+   * Index of the slot that touches this one on the given side and would
+   * sync to the same thing (mode, value, conditions), or -1.
+   */
+  private _mergeableNeighbour(dayIndex: number, slotIndex: number, side: 'before' | 'after'): number {
+    const day = this._days[dayIndex];
+    const slot = day?.timeSlots[slotIndex];
+    if (!slot) return -1;
+
+    const canonical = this._canonicalSlot(slot);
+    return day.timeSlots.findIndex((other, si) => {
+      if (si === slotIndex) return false;
+      const touches = side === 'before' ? other.end === slot.start : other.start === slot.end;
+      if (!touches) return false;
+      const otherCanonical = this._canonicalSlot(other);
+      return otherCanonical.on === canonical.on
+        && otherCanonical.value === canonical.value
+        && this._conditionsEqual(otherCanonical.conditions, canonical.conditions);
+    });
+  }
+
+  // Join a slot with its touching neighbour into one slot spanning both
+  private _mergeSlot(dayIndex: number, slotIndex: number, side: 'before' | 'after'): void {
+    const neighbourIndex = this._mergeableNeighbour(dayIndex, slotIndex, side);
+    if (neighbourIndex < 0) return;
+
+    const slots = this._days[dayIndex].timeSlots;
+    const [left, right] = side === 'before'
+      ? [slots[neighbourIndex], slots[slotIndex]]
+      : [slots[slotIndex], slots[neighbourIndex]];
+    const merged: TimeSlot = { ...left, end: right.end };
+    if (right.endSun) {
+      merged.endSun = right.endSun;
+    } else {
+      delete merged.endSun;
+    }
+
+    this._recordHistory();
+    this._days = this._days.map((day, di) => {
+      if (di !== dayIndex) return day;
+      const newSlots = day.timeSlots
+        .map((s, si) => (si === slotIndex ? merged : s))
+        .filter((_, si) => si !== neighbourIndex);
+      return { ...day, timeSlots: newSlots };
+    });
+    // Removing the neighbour shifts this slot down if it came first
+    this._selectTimeslot(dayIndex, neighbourIndex < slotIndex ? slotIndex - 1 : slotIndex);
+  }
+
+  private _renderSplitMergeRows(dayIndex: number, slotIndex: number): TemplateResult {
+    const slot = this._days[dayIndex]?.timeSlots[slotIndex];
+    if (!slot) return html``;
+
+    const splitAt = this._splitAt ?? this._defaultSplitPoint(slot);
+    const canSplit = this._splitPointInSlot(slot, splitAt) !== null;
+    const mergeBefore = this._mergeableNeighbour(dayIndex, slotIndex, 'before') >= 0;
+    const mergeAfter = this._mergeableNeighbour(dayIndex, slotIndex, 'after') >= 0;
+
+    return html`
+      <div class="option-row">
+        <span>Split at:</span>
+        <input
+          type="time"
+          step=${this.minutesPerInterval * 60}
+          .value=${this._formatMinutes(splitAt)}
+          @change=${(e: Event) => {
+            const value = (e.currentTarget as HTMLInputElement).value;
+            this._splitAt = value ? this._parseTimeToMinutes(value) : null;
+            this._resetFocusTimeout();
+          }}
+        />
+        <mwc-button
+          outlined
+          .label=${'Split'}
+          ?disabled=${!canSplit}
+          @click=${() => this._splitSlot(dayIndex, slotIndex, splitAt)}
+        ></mwc-button>
+      </div>
+      ${mergeBefore || mergeAfter
+        ? html`
+            <div class="option-row">
+              ${mergeBefore
+                ? html`<mwc-button outlined .label=${'Merge with previous'}
+                    @click=${() => this._mergeSlot(dayIndex, slotIndex, 'before')}></mwc-button>`
+                : null}
+              ${mergeAfter
+                ? html`<mwc-button outlined .label=${'Merge with next'}
+                    @click=${() => this._mergeSlot(dayIndex, slotIndex, 'after')}></mwc-button>`
+                : null}
+            </div>
+          `
+        : null}
+    `;
+  }
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Overlap check
+  // ────────────────────────────────────────────────────────────────────────────
+  /**
+   * Would slot `slotIndex` of the day overlap anything at start..end? Besides
+   * the day's own slots this covers last night's slot running into this
+   * morning, and this slot running into tomorrow morning.
+   */
+  private _wouldOverlap(
+    dayIndex: number,
+    slotIndex: number,
+    start: number,
+    end: number,
+    days: ApsleyDay[] = this._days
+  ): boolean {
+    if (this._overlapsAny(days[dayIndex].timeSlots, start, end, slotIndex)) return true;
+
+    const count = days.length;
+    const prevIndex = (dayIndex + count - 1) % count;
+    const nextIndex = (dayIndex + 1) % count;
+    if (prevIndex !== dayIndex && days[prevIndex].timeSlots.some(slot => this._wraps(slot) && start < slot.end)) {
+      return true;
+    }
+    const endExt = this._extendedEnd(start, end);
+    if (endExt > MINUTES_PER_DAY && nextIndex !== dayIndex) {
+      return days[nextIndex].timeSlots.some(slot => slot.start < endExt - MINUTES_PER_DAY);
+    }
+    return false;
+  }
+
+  private get _overlapPolicy(): OverlapPolicy {
+    return this._config?.overlap_policy ?? 'block';
+  }
+
+  /**
+   * Put slot `index` of `slots` at start..end and deal with what it runs into
+   * according to the overlap policy:
+   * - block: nothing changes, returns null
+   * - push: neighbours move along (keeping their length), null if that
+   *   would push one out of the day
+   * - trim: overlapped neighbours are cut back, split around the slot, or
+   *   removed when fully covered
+   * Returns the day's new slots and where the moved slot ended up in them.
+   */
+  private _placeSlot(
+    slots: TimeSlot[],
+    index: number,
+    start: number,
+    end: number,
+    moved: (slot: TimeSlot) => TimeSlot
+  ): { slots: TimeSlot[]; index: number } | null {
+    const policy = this._overlapPolicy;
+    const placed = moved(slots[index]);
+
+    if (!this._overlapsAny(slots, start, end, index)) {
+      return { slots: slots.map((slot, si) => (si === index ? placed : slot)), index };
+    }
+    if (policy === 'block') return null;
+
+    if (policy === 'push') {
+      const original = slots[index];
+      const result = slots.map((slot, si) => (si === index ? placed : slot));
+      const shift = (si: number, delta: number) => {
+        const slot = result[si];
+        result[si] = {
+          ...slot,
+          start: slot.start + delta,
+          end: slot.end + delta,
+          startSun: this._shiftSunAnchor(slot.startSun, delta),
+          endSun: this._shiftSunAnchor(slot.endSun, delta),
+        };
+      };
+      const order = slots
+        .map((slot, si) => ({ slot, si }))
+        .filter(({ si }) => si !== index)
+        .sort((a, b) => a.slot.start - b.slot.start);
+
+      // Slots after the moved one get pushed right, those before it left
+      let cursor = end;
+      for (const { slot, si } of order.filter(({ slot }) => slot.start >= original.end)) {
+        if (slot.start < cursor) shift(si, cursor - slot.start);
+        cursor = result[si].end;
+      }
+      cursor = start;
+      for (const { slot, si } of order.filter(({ slot }) => slot.end <= original.start).reverse()) {
+        if (slot.end > cursor) shift(si, cursor - slot.end);
+        cursor = result[si].start;
+      }
+
+      if (result.some(slot => slot.start < 0 || slot.start >= MINUTES_PER_DAY || slot.end > MINUTES_PER_DAY)) {
+        return null;
+      }
+      return { slots: result, index };
+    }
+
+    // policy === 'trim'
+    const result: TimeSlot[] = [];
+    let newIndex = index;
+    slots.forEach((slot, si) => {
+      if (si === index) {
+        newIndex = result.length;
+        result.push(placed);
+        return;
+      }
+      const slotEnd = this._extendedEnd(slot.start, slot.end);
+      if (slotEnd <= start || slot.start >= end) {
+        result.push(slot);
+        return;
+      }
+      // Whatever sticks out on either side survives, losing its sun anchor at the cut
+      if (slot.start < start) {
+        const before: TimeSlot = { ...slot, end: start };
+        delete before.endSun;
+        result.push(before);
+      }
+      if (slotEnd > end) {
+        const after: TimeSlot = { ...slot, start: end };
+        delete after.startSun;
+        result.push(after);
+      }
+    });
+    return { slots: result, index: newIndex };
+  }
+
+  /**
+   * Apply a drag move to the day, starting from the slots as they were
+   * when the drag began. Returns false if the overlap policy blocks it.
+   */
+  private _applyDragMove(
+    dayIndex: number,
+    start: number,
+    end: number,
+    moved: (slot: TimeSlot) => TimeSlot
+  ): boolean {
+    const baseDay = this._dragStartDays?.[dayIndex];
+    const baseIndex = this._dragStartSlotIndex;
+    if (!baseDay || baseIndex == null) return false;
+
+    const base = this._dragStartDays as ApsleyDay[];
+    // Push/trim only work within the day, a slot past midnight just stops at its neighbours
+    const placement = this._wraps({ start, end })
+      ? this._wouldOverlap(dayIndex, baseIndex, start, end, base)
+        ? null
+        : { slots: baseDay.timeSlots.map((slot, si) => (si === baseIndex ? moved(slot) : slot)), index: baseIndex }
+      : this._placeSlot(baseDay.timeSlots, baseIndex, start, end, moved);
+    if (!placement) return false;
+
+    const days = this._days.map((d, di) => (di === dayIndex ? { ...d, timeSlots: placement.slots } : d));
+    // Nothing may end up under last night's slot running into this morning
+    if (placement.slots.some((slot, si) => this._wouldOverlap(dayIndex, si, slot.start, slot.end, days))) {
+      return false;
+    }
+
+    // The whole drag is one undo step
+    this._recordHistory('drag');
+    this._days = days;
+
+    // Trimming may remove or split slots in front of the dragged one
+    this._selectedSlotIndex = placement.index;
+    if (this._draggingTrackSlotIndex != null) this._draggingTrackSlotIndex = placement.index;
+    if (this._draggingBoundarySlotIndex != null) this._draggingBoundarySlotIndex = placement.index;
+    return true;
+  }
+
+  // Same-day check only; slots past midnight count up to their extended end
+  private _overlapsAny(slots: TimeSlot[], start: number, end: number, skipIndex = -1): boolean {
+    const endExt = this._extendedEnd(start, end);
+    return slots.some((slot, idx) => {
+      if (idx === skipIndex) return false;
+      return start < this._extendedEnd(slot.start, slot.end) && slot.start < endExt;
+    });
   }
-  
 
   // ────────────────────────────────────────────────────────────────────────────
-  // Click on empty track => add new slot (2 hours = 12 intervals)
+  // Copy / paste days
   // ────────────────────────────────────────────────────────────────────────────
-  private _onTrackClick(e: MouseEvent, dayIndex: number): void {
-    // If click was on a child element (like the timeslot or boundary), ignore
-    if (e.target !== e.currentTarget) return;
-  
-    const trackRect = (
-      this.renderRoot.querySelectorAll('.track')[dayIndex] as HTMLElement
-    )?.getBoundingClientRect();
-    if (!trackRect) return;
-  
-    const clickX = e.clientX - trackRect.left;
-    // Convert to fraction across track
-    const frac = clickX / trackRect.width;
-    // Convert fraction → intervals
-    let intervalStart = Math.floor(frac * this.maxIntervals);
-    // Default new slot = 12 intervals (2 hours)
-    const intervalsPer2Hours = 120 / this.minutesPerInterval; 
-    let intervalEnd = intervalStart + intervalsPer2Hours;
-    if (intervalEnd > this.maxIntervals) {
-      intervalEnd = this.maxIntervals;
-      intervalStart = this.maxIntervals - intervalsPer2Hours;
-    }
-  
-    // Check for overlap
+  private _copyDay(dayIndex: number): void {
     const day = this._days[dayIndex];
-    const overlaps = day.timeSlots.some(
-      (slot) => intervalStart < slot.end && slot.start < intervalEnd
-    );
-    if (!overlaps) {
-      const newSlots = [...day.timeSlots];
-      newSlots.push({
-        start: intervalStart,
-        end: intervalEnd,
-        on: true,
-        value: 20,
-      });
-      this._days = this._days.map((d, i) =>
-        i === dayIndex ? { ...d, timeSlots: newSlots } : d
-      );
-      // Select new slot
-      this._selectTimeslot(dayIndex, newSlots.length - 1);
-    }
+    if (!day) return;
+    this._copiedDay = day;
   }
 
-  private _onTimeslotClick(e: Event, dayIndex: number, slotIndex: number): void {
-    e.stopPropagation();
-    this._selectTimeslot(dayIndex, slotIndex);
+  // Paste replaces the row, like "copy to…" in replace mode
+  private _pasteDay(dayIndex: number): void {
+    if (!this._copiedDay) return;
+    this._reportSkipped(this._applySlotsToDays(this._copiedDay, [dayIndex], 'replace'));
   }
 
-  disconnectedCallback(): void {
-    super.disconnectedCallback();
-    if (this._focusTimeout !== null) {
-      clearTimeout(this._focusTimeout);
+  // List the slots a copy left out under the header, and announce it
+  private _reportSkipped(skipped: string[]): void {
+    this._copySkipped = skipped;
+    if (skipped.length) {
+      this._announcement = `${skipped.length} timeslots not copied, they overlap existing ones`;
     }
   }
 
-  // ────────────────────────────────────────────────────────────────────────────
-  // Toggle / Value / Delete
-  // ────────────────────────────────────────────────────────────────────────────
-  private _toggleSlotOnOff(dayIndex: number, slotIndex: number) {
-    if (this._selectedDayIndex === dayIndex && this._selectedSlotIndex === slotIndex) {
-      this._resetFocusTimeout();
-    }
-    this._days = this._days.map((day, di) => {
-      if (di !== dayIndex) return day;
-      const newSlots = day.timeSlots.map((slot, si) => {
-        if (si !== slotIndex) return slot;
-        return { ...slot, on: !slot.on };
-      });
-      return { ...day, timeSlots: newSlots };
-    });
+  private _openCopyTo(dayIndex: number): void {
+    this._copySkipped = [];
+    this._copyToDayIndex = dayIndex;
+    this._copyToTargets = [];
+    this._copyToMode = 'replace';
   }
 
-  private _updateSlotValue(dayIndex: number, slotIndex: number, newValue: number) {
-    if (this._selectedDayIndex === dayIndex && this._selectedSlotIndex === slotIndex) {
-      this._resetFocusTimeout();
+  private _closeCopyTo(): void {
+    this._copyToDayIndex = null;
+    this._copyToTargets = [];
+  }
+
+  private _toggleCopyToTarget(dayIndex: number, checked: boolean): void {
+    this._copyToTargets = checked
+      ? [...this._copyToTargets, dayIndex]
+      : this._copyToTargets.filter(index => index !== dayIndex);
+  }
+
+  // Tick a preset group (workdays, weekend, all) in the "copy to…" panel
+  private _selectCopyToGroup(dayNames: string[]): void {
+    this._copyToTargets = this._days
+      .map((day, index) => (dayNames.includes(day.dayName) && index !== this._copyToDayIndex ? index : -1))
+      .filter(index => index >= 0);
+  }
+
+  private _confirmCopyTo(): void {
+    const source = this._copyToDayIndex !== null ? this._days[this._copyToDayIndex] : undefined;
+    if (source && this._copyToTargets.length) {
+      this._reportSkipped(this._applySlotsToDays(source, this._copyToTargets, this._copyToMode));
     }
-    this._days = this._days.map((day, di) => {
-      if (di !== dayIndex) return day;
-      const newSlots = day.timeSlots.map((slot, si) => {
-        if (si !== slotIndex) return slot;
-        return { ...slot, value: newValue };
-      });
-      return { ...day, timeSlots: newSlots };
-    });
+    this._closeCopyTo();
   }
 
-  private _deleteSlot(dayIndex: number, slotIndex: number) {
-    this._days = this._days.map((day, di) => {
-      if (di !== dayIndex) return day;
-      const newSlots = day.timeSlots.filter((_, si) => si !== slotIndex);
-      return { ...day, timeSlots: newSlots };
+  /**
+   * Put a day's slots onto other days as one undo step. 'replace' swaps the
+   * target's slots and conditions for the source's; 'merge' adds the source
+   * slots to what the target already has. Either way a slot that would
+   * overlap another, including across midnight from the day before or into
+   * the day after, is left out; returns the ones left out.
+   */
+  private _applySlotsToDays(source: ApsleyDay, dayIndices: number[], mode: 'replace' | 'merge'): string[] {
+    const skipped: string[] = [];
+    const targets = this._days
+      .map((day, di) => (dayIndices.includes(di) && day !== source ? di : -1))
+      .filter(di => di >= 0);
+
+    // Replaced days start out empty, so their old slots can't block the new ones next door
+    const days = this._days.map((day, di) => {
+      if (mode !== 'replace' || !targets.includes(di)) return day;
+      const replaced: ApsleyDay = { ...day, timeSlots: [] };
+      if (source.conditions) {
+        replaced.conditions = source.conditions;
+      } else {
+        delete replaced.conditions;
+      }
+      return replaced;
     });
 
-    if (this._selectedDayIndex === dayIndex && this._selectedSlotIndex === slotIndex) {
+    for (const di of targets) {
+      for (const slot of source.timeSlots) {
+        if (this._wouldOverlap(di, -1, slot.start, slot.end, days)) {
+          skipped.push(`${days[di].dayName} ${this._formatMinutes(slot.start)}–${this._formatMinutes(slot.end)}`);
+          continue;
+        }
+        // Merged slots keep their own copy of the source day's conditions, the target day's stay as they are
+        const conditions = mode === 'merge' ? slot.conditions ?? source.conditions : slot.conditions;
+        days[di] = {
+          ...days[di],
+          timeSlots: [...days[di].timeSlots, conditions ? { ...slot, conditions } : { ...slot }]
+            .sort((a, b) => a.start - b.start),
+        };
+      }
+    }
+
+    this._recordHistory();
+    this._days = days;
+
+    // Slot indices on the targets may have moved
+    if (this._selectedDayIndex !== null && dayIndices.includes(this._selectedDayIndex)) {
       this._selectedDayIndex = null;
       this._selectedSlotIndex = null;
     }
+    this._multiSelection = [];
+    return skipped;
   }
 
-  // ────────────────────────────────────────────────────────────────────────────
-  // Overlap check
-  // ────────────────────────────────────────────────────────────────────────────
-  private _wouldOverlap(dayIndex: number, slotIndex: number, start: number, end: number): boolean {
-    const day = this._days[dayIndex];
-    return day.timeSlots.some((slot, idx) => {
-      if (idx === slotIndex) return false;
-      return start < slot.end && slot.start < end;
-    });
+  private _renderCopyToPanel(): TemplateResult {
+    if (this._copyToDayIndex === null) return html``;
+    const source = this._days[this._copyToDayIndex];
+    if (!source) return html``;
+
+    return html`
+      <div class="options-panel copy-to">
+        <div class="option-row">
+          <span class="day-display">Copy ${source.dayName} to…</span>
+        </div>
+
+        <div class="option-row copy-to-days">
+          ${this._days.map((day, index) => index === this._copyToDayIndex
+            ? null
+            : html`
+                <label>
+                  <input
+                    type="checkbox"
+                    .checked=${this._copyToTargets.includes(index)}
+                    @change=${(e: Event) =>
+                      this._toggleCopyToTarget(index, (e.currentTarget as HTMLInputElement).checked)}
+                  />
+                  ${day.dayName.substring(0, 3)}
+                </label>
+              `)}
+        </div>
+
+        <div class="option-row">
+          <mwc-button dense .label=${'Workdays'} @click=${() => this._selectCopyToGroup(WORKDAYS)}></mwc-button>
+          <mwc-button dense .label=${'Weekend'} @click=${() => this._selectCopyToGroup(WEEKEND)}></mwc-button>
+          <mwc-button dense .label=${'All'} @click=${() => this._selectCopyToGroup(ALL_DAYS)}></mwc-button>
+        </div>
+
+        <div class="option-row">
+          <span>Existing timeslots:</span>
+          <select
+            .value=${this._copyToMode}
+            @change=${(e: Event) =>
+              (this._copyToMode = (e.currentTarget as HTMLSelectElement).value as 'replace' | 'merge')}
+          >
+            <option value="replace">Replace</option>
+            <option value="merge">Merge (skip overlaps)</option>
+          </select>
+        </div>
+
+        <div class="option-row">
+          <mwc-button outlined .label=${'Cancel'} @click=${this._closeCopyTo}></mwc-button>
+          <mwc-button
+            unelevated
+            .label=${'Copy'}
+            ?disabled=${!this._copyToTargets.length}
+            @click=${this._confirmCopyTo}
+          ></mwc-button>
+        </div>
+      </div>
+    `;
   }
 
   // ────────────────────────────────────────────────────────────────────────────
   // DRAG LOGIC: move entire slot
   // ────────────────────────────────────────────────────────────────────────────
-  private _onTrackPointerDown(e: PointerEvent, dayIndex: number, slotIndex: number) {
+  // `offset` is MINUTES_PER_DAY when grabbing the after-midnight part on the next row
+  private _onTrackPointerDown(e: PointerEvent, dayIndex: number, slotIndex: number, offset = 0) {
     e.stopPropagation();
+    // Modifier clicks only change the selection (see _onTimeslotClick)
+    if (e.shiftKey || e.ctrlKey || e.metaKey) return;
     // Select if not already selected
     if (this._selectedDayIndex !== dayIndex || this._selectedSlotIndex !== slotIndex) {
       this._selectTimeslot(dayIndex, slotIndex);
@@ -967,10 +4189,13 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
 
     this._draggingTrackDayIndex = dayIndex;
     this._draggingTrackSlotIndex = slotIndex;
+    this._dragStartDays = this._days;
+    this._dragStartSlotIndex = slotIndex;
     this._draggingTrackInitialStart = slot.start;
     this._draggingTrackInitialEnd = slot.end;
+    this._draggingTrackPointerOffset = offset;
 
-    const duration = slot.end - slot.start;
+    const duration = this._extendedEnd(slot.start, slot.end) - slot.start;
     const trackRect = (
       this.renderRoot.querySelectorAll('.track')[dayIndex] as HTMLElement
     )?.getBoundingClientRect();
@@ -978,9 +4203,9 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
 
     // Where did we grab the slot?
     const pointerPx = e.clientX - trackRect.left;
-    const pointerInterval = (pointerPx / trackRect.width) * this.maxIntervals;
+    const pointerMinutes = (pointerPx / trackRect.width) * MINUTES_PER_DAY + offset;
     // The anchor point within the slot
-    this._draggingTrackPointerFrac = (pointerInterval - slot.start) / duration;
+    this._draggingTrackPointerFrac = (pointerMinutes - slot.start) / duration;
     this._draggingTrackPointerFrac = Math.max(0, Math.min(1, this._draggingTrackPointerFrac));
 
     this._isDragging = true;
@@ -1007,45 +4232,32 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
   
     const originalStart = this._draggingTrackInitialStart;
     const originalEnd   = this._draggingTrackInitialEnd;
-    const duration      = originalEnd - originalStart;
+    const duration      = this._extendedEnd(originalStart, originalEnd) - originalStart;
   
-    // Convert mouse X → fraction → intervals
+    // Convert mouse X → fraction → minutes
     const pointerPx = e.clientX - trackRect.left;
-    let pointerInterval = (pointerPx / trackRect.width) * this.maxIntervals;
-    pointerInterval = Math.round(pointerInterval);
-  
-    // Anchor within the slot so you can drag from the middle
-    const anchorInterval = originalStart + this._draggingTrackPointerFrac * duration;
-    let rawDelta = pointerInterval - anchorInterval;
-    rawDelta = Math.round(rawDelta);
-  
-    let newStart = originalStart + rawDelta;
-    let newEnd   = newStart + duration;
+    const pointerMinutes = (pointerPx / trackRect.width) * MINUTES_PER_DAY + this._draggingTrackPointerOffset;
   
-    // Clamp to valid range [0..this.maxIntervals]
-    if (newStart < 0) {
-      newStart = 0;
-      newEnd = duration;
-    }
-    if (newEnd > this.maxIntervals) {
-      newEnd = this.maxIntervals;
-      newStart = this.maxIntervals - duration;
-    }
+    // Anchor within the slot so you can drag from the middle,
+    // and move in whole time_steps
+    const anchorMinutes = originalStart + this._draggingTrackPointerFrac * duration;
+    const rawDelta = this._snapMinutes(pointerMinutes - anchorMinutes);
   
-    // Check for overlap
-    if (this._wouldOverlap(dayIndex, slotIndex, newStart, newEnd)) {
-      return;
-    }
+    // The start stays within the day; the end may run on past midnight.
+    // A whole-day slot has nowhere to go.
+    const maxStart = duration >= MINUTES_PER_DAY ? 0 : MINUTES_PER_DAY - this.minutesPerInterval;
+    const newStart = Math.max(0, Math.min(maxStart, originalStart + rawDelta));
+    const newEnd = this._wrapEnd(newStart + duration);
+    const delta = newStart - originalStart;
   
-    // Update the slot
-    this._days = this._days.map((d, di) => {
-      if (di !== dayIndex) return d;
-      const newSlots = d.timeSlots.map((s, si) => {
-        if (si !== slotIndex) return s;
-        return { ...s, start: newStart, end: newEnd };
-      });
-      return { ...d, timeSlots: newSlots };
-    });
+    // Update the slot; what happens to neighbours in the way is up to the overlap policy
+    this._applyDragMove(dayIndex, newStart, newEnd, (s) => ({
+      ...s,
+      start: newStart,
+      end: newEnd,
+      startSun: this._shiftSunAnchor(s.startSun, delta),
+      endSun: this._shiftSunAnchor(s.endSun, delta),
+    }));
   }
   
 
@@ -1062,6 +4274,10 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
     this._draggingTrackInitialStart = 0;
     this._draggingTrackInitialEnd = 0;
     this._draggingTrackPointerFrac = 0;
+    this._draggingTrackPointerOffset = 0;
+    this._dragStartDays = null;
+    this._dragStartSlotIndex = null;
+    this._endHistoryStep();
     this._resetFocusTimeout();
   }
 
@@ -1089,8 +4305,10 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
 
     this._draggingBoundaryDayIndex = dayIndex;
     this._draggingBoundarySlotIndex = slotIndex;
+    this._dragStartDays = this._days;
+    this._dragStartSlotIndex = slotIndex;
     this._dragBoundary = boundary;
-    this._dragBoundaryOriginalInterval =
+    this._dragBoundaryOriginalMinutes =
       boundary === 'start' ? slot.start : slot.end;
 
     this._isDragging = true;
@@ -1100,7 +4318,7 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
   private _onPointerMoveBoundary(
     e: PointerEvent,
     dayIndex: number,
-    slotIndex: number,
+    _slotIndex: number,
     boundary: 'start' | 'end'
   ) {
     this._resetFocusTimeout();
@@ -1113,14 +4331,16 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
     }
     if (
       this._draggingBoundaryDayIndex !== dayIndex ||
-      this._draggingBoundarySlotIndex !== slotIndex ||
       this._dragBoundary !== boundary
     ) {
       return;
     }
+    // Trimming can change the dragged slot's index mid-drag, so go by the
+    // stored index rather than the one this (pointer-captured) element was rendered with
+    const draggedIndex = this._draggingBoundarySlotIndex;
 
-    const originalInterval = this._dragBoundaryOriginalInterval;
-    if (originalInterval == null) return;
+    const originalMinutes = this._dragBoundaryOriginalMinutes;
+    if (originalMinutes == null) return;
 
     const trackRect = (
       this.renderRoot.querySelectorAll('.track')[dayIndex] as HTMLElement
@@ -1128,52 +4348,48 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
     if (!trackRect) return;
 
     const pointerPx = e.clientX - trackRect.left;
-    let newInterval = Math.round((pointerPx / trackRect.width) * this.maxIntervals);
-    if (newInterval < 0) newInterval = 0;
-    if (newInterval > this.maxIntervals) newInterval = this.maxIntervals;
+    let newMinutes = this._snapMinutes((pointerPx / trackRect.width) * MINUTES_PER_DAY);
+    if (newMinutes < 0) newMinutes = 0;
+    if (newMinutes > MINUTES_PER_DAY) newMinutes = MINUTES_PER_DAY;
 
-    const slot = this._days[dayIndex].timeSlots[slotIndex];
+    const slot = this._days[dayIndex].timeSlots[draggedIndex];
     if (!slot) return;
 
+    const wraps = this._wraps(slot);
     if (boundary === 'start') {
-      // Must not exceed the slot's end
-      if (newInterval > slot.end) return;
-      if (!this._wouldOverlap(dayIndex, slotIndex, newInterval, slot.end)) {
-        this._days = this._days.map((d, di) => {
-          if (di !== dayIndex) return d;
-          const newSlots = d.timeSlots.map((s, si) => {
-            if (si !== slotIndex) return s;
-            return { ...s, start: newInterval };
-          });
-          return { ...d, timeSlots: newSlots };
-        });
-      }
+      // Must not pass the slot's end (for a slot past midnight: stay after its end, before 24:00)
+      if (wraps ? newMinutes <= slot.end || newMinutes >= MINUTES_PER_DAY : newMinutes > slot.end) return;
+      this._applyDragMove(dayIndex, newMinutes, slot.end, (s) => ({
+        ...s,
+        start: newMinutes,
+        startSun: this._shiftSunAnchor(s.startSun, newMinutes - s.start),
+      }));
     } else {
-      // boundary === 'end'
-      if (newInterval < slot.start) return;
-      if (!this._wouldOverlap(dayIndex, slotIndex, slot.start, newInterval)) {
-        this._days = this._days.map((d, di) => {
-          if (di !== dayIndex) return d;
-          const newSlots = d.timeSlots.map((s, si) => {
-            if (si !== slotIndex) return s;
-            return { ...s, end: newInterval };
-          });
-          return { ...d, timeSlots: newSlots };
-        });
-      }
+      // boundary === 'end'; for a slot past midnight it's dragged on the next row,
+      // and dragging it back to 00:00 makes the slot end at midnight again
+      if (wraps ? newMinutes >= slot.start : newMinutes < slot.start) return;
+      const newEnd = wraps && newMinutes === 0 ? MINUTES_PER_DAY : newMinutes;
+      this._applyDragMove(dayIndex, slot.start, newEnd, (s) => ({
+        ...s,
+        end: newEnd,
+        endSun: this._shiftSunAnchor(
+          s.endSun,
+          this._extendedEnd(s.start, newEnd) - this._extendedEnd(s.start, s.end)
+        ),
+      }));
     }
   }
 
   private _onPointerUpBoundary(
     e: PointerEvent,
     dayIndex: number,
-    slotIndex: number,
+    _slotIndex: number,
     boundary: 'start' | 'end'
   ) {
     this._resetFocusTimeout();
     if (
       this._draggingBoundaryDayIndex === dayIndex &&
-      this._draggingBoundarySlotIndex === slotIndex &&
+      this._draggingBoundarySlotIndex != null &&
       this._dragBoundary === boundary
     ) {
       (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId);
@@ -1182,7 +4398,10 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
     this._draggingBoundaryDayIndex = null;
     this._draggingBoundarySlotIndex = null;
     this._dragBoundary = null;
-    this._dragBoundaryOriginalInterval = null;
+    this._dragBoundaryOriginalMinutes = null;
+    this._dragStartDays = null;
+    this._dragStartSlotIndex = null;
+    this._endHistoryStep();
   }
 
   // ────────────────────────────────────────────────────────────────────────────
@@ -1227,6 +4446,50 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
         background: var(--primary-color-dark, #0056b3);
       }
 
+      ha-card:focus {
+        outline: none;
+      }
+
+      .history-button {
+        background: none;
+        color: var(--primary-color, #007bff);
+        border: 1px solid var(--primary-color, #007bff);
+        padding: 5px 10px;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .profile-select {
+        padding: 5px;
+        border-radius: 4px;
+      }
+
+      .profile-name {
+        flex: 1;
+      }
+
+      .import-text {
+        width: 100%;
+        box-sizing: border-box;
+        font-family: monospace;
+      }
+
+      .import-errors {
+        color: var(--error-color, #ef5350);
+        font-size: 0.9em;
+      }
+
+      .import-warning {
+        color: var(--warning-color, #ffa600);
+        font-size: 0.9em;
+      }
+
+      .history-button:disabled {
+        color: var(--disabled-text-color, #999);
+        border-color: var(--disabled-text-color, #999);
+        cursor: default;
+      }
+
       .days-container.show-today-only .day-row {
         display: none;
       }
@@ -1238,6 +4501,37 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
       .day-row.current-day {
         border-radius: 4px;
       }
+
+      .day-row.overridden .day-label {
+        text-decoration: underline dotted;
+        color: var(--warning-color, #ffa600);
+      }
+      .day-row.overridden .track {
+        outline: 2px dashed var(--warning-color, #ffa600);
+      }
+
+      .override-list {
+        margin: 8px 0;
+        font-size: 0.9em;
+      }
+      .override-list-title {
+        font-weight: bold;
+        margin-bottom: 4px;
+      }
+      .override-item {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+      .override-item.active .override-dates {
+        color: var(--warning-color, #ffa600);
+      }
+      .override-dates {
+        min-width: 110px;
+      }
+      .override-name {
+        flex: 1;
+      }
       .sync-button.synced {
         background: #28a745; /* Green when synced */
       }
@@ -1260,11 +4554,19 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
       }
 
       .days-container {
+        position: relative;
         display: flex;
         flex-direction: column;
         gap: 0.75rem;
         padding: 15px;
       }
+      .selection-band {
+        position: absolute;
+        border: 1px dashed var(--primary-color, #03a9f4);
+        background: rgba(3, 169, 244, 0.15);
+        pointer-events: none;
+        z-index: 10;
+      }
 
       .day-row {
         display: flex;
@@ -1279,6 +4581,28 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
         margin-top: 6px;
       }
 
+      .day-actions {
+        display: flex;
+        flex-direction: column;
+        gap: 2px;
+      }
+      .day-action {
+        background: none;
+        border: none;
+        padding: 0;
+        line-height: 1;
+        color: var(--secondary-text-color);
+        cursor: pointer;
+      }
+      .day-action:disabled {
+        color: var(--disabled-text-color, #999);
+        cursor: default;
+      }
+      .copy-to-days {
+        flex-wrap: wrap;
+        gap: 0.75rem;
+      }
+
       .track-container {
         display: flex;
         flex-direction: column;
@@ -1332,6 +4656,52 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
       .timeslot.selected {
         filter: brightness(1.2);
       }
+      .timeslot:focus-visible,
+      .boundary:focus-visible {
+        outline: 2px solid var(--primary-color, #03a9f4);
+        outline-offset: 1px;
+        z-index: 6;
+      }
+      .visually-hidden {
+        position: absolute;
+        width: 1px;
+        height: 1px;
+        overflow: hidden;
+        clip: rect(0 0 0 0);
+        white-space: nowrap;
+      }
+      .gap {
+        position: absolute;
+        top: 0;
+        bottom: 0;
+        opacity: 0.3;
+        pointer-events: none;
+      }
+      .gap.on {
+        background: repeating-linear-gradient(45deg, #63b763 0 4px, transparent 4px 8px);
+      }
+      .gap.off {
+        background: repeating-linear-gradient(45deg, #c83838 0 4px, transparent 4px 8px);
+      }
+      .gap-badge {
+        position: absolute;
+        top: 50%;
+        left: 50%;
+        transform: translate(-50%, -50%);
+        font-size: 0.7rem;
+        color: #fff;
+      }
+      .default-value {
+        width: 5em;
+      }
+      /* Runs past midnight: open on the right here, open on the left on the next row */
+      .timeslot.wraps {
+        border-right-style: dashed;
+      }
+      .timeslot.continuation {
+        border-left-style: dashed;
+        opacity: 0.85;
+      }
       .timeslot.disabled {
         background: #ccc;
         opacity: 0.5;
@@ -1366,6 +4736,91 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
         z-index: 5;
       }
 
+      .history-track {
+        position: relative;
+        height: 6px;
+        margin-top: 2px;
+        background: rgba(68, 68, 68, 0.5);
+      }
+      .history-segment {
+        position: absolute;
+        top: 0;
+        bottom: 0;
+      }
+      .history-segment.on {
+        background: rgba(99, 183, 99, 0.6);
+      }
+      .history-segment.off {
+        background: rgba(200, 56, 56, 0.4);
+      }
+      .history-segment.deviation {
+        background: var(--error-color, #ef5350);
+        box-shadow: 0 0 0 1px var(--warning-color, #ffa600);
+      }
+
+      .now-summary {
+        padding: 8px 16px 0;
+        font-size: 0.95rem;
+        color: var(--secondary-text-color);
+      }
+      .now-line {
+        position: absolute;
+        top: -4px;
+        bottom: -4px;
+        width: 2px;
+        transform: translateX(-50%);
+        background: var(--accent-color, #ff9800);
+        pointer-events: none;
+        z-index: 3;
+      }
+
+      .sun-marker {
+        position: absolute;
+        top: -6px;
+        width: 10px;
+        height: 10px;
+        border-radius: 50%;
+        transform: translateX(-50%);
+        pointer-events: none;
+        z-index: 2;
+        box-shadow: 0 0 3px rgba(0, 0, 0, 0.6);
+      }
+      .sun-marker.sunrise {
+        background: #ffc107;
+      }
+      .sun-marker.sunset {
+        background: #ff7043;
+      }
+      .sun-offset {
+        width: 5em;
+      }
+      .conditions {
+        display: flex;
+        flex-direction: column;
+        gap: 0.5rem;
+        border-top: 1px solid var(--divider-color);
+        padding-top: 0.5rem;
+      }
+      .condition-row {
+        gap: 0.5rem;
+      }
+      .condition-row.incomplete input {
+        outline: 1px dashed var(--warning-color, #ffa600);
+      }
+      .condition-entity {
+        flex: 1;
+        min-width: 0;
+      }
+      .condition-value {
+        width: 6em;
+      }
+      .condition-remove {
+        background: none;
+        border: none;
+        color: var(--secondary-text-color);
+        cursor: pointer;
+      }
+
       .options-panel {
         margin-top: 1rem;
         padding: 1rem;
@@ -1384,6 +4839,36 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
       .option-row > span {
         font-weight: 500;
       }
+
+      .preview-day {
+        display: flex;
+        flex-direction: column;
+        gap: 0.25rem;
+      }
+      .preview-unchanged,
+      .preview-empty {
+        opacity: 0.6;
+      }
+      .preview-removed {
+        color: var(--error-color, #c83838);
+      }
+      .preview-added {
+        color: var(--success-color, #63b763);
+      }
+      .sync-result .result-day {
+        min-width: 6em;
+      }
+      .sync-result.unchanged {
+        opacity: 0.6;
+      }
+      .sync-result.failed .result-detail {
+        color: var(--error-color, #c83838);
+      }
+      .preview-added code {
+        margin-left: 0.5rem;
+        color: var(--primary-text-color);
+        font-size: 0.85em;
+      }
       .day-display {
         font-size: 1.1em;
       }
@@ -1436,5 +4921,5 @@ export class ApsleySchedulerCard extends LitElement implements LovelaceCard {
 (window as any).customCards.push({
   type: 'apsley-scheduler-card',
   name: 'Apsley Scheduler Card',
-  description: 'A card for scheduling timeslots to control an entity (10-min intervals).',
+  description: 'A card for scheduling timeslots to control one or more entities.',
 });
@@ -1 +1,24 @@
-export const CARD_VERSION = '1.0.0';
\ No newline at end of file
+// Day names in week order, as used for `ApsleyDay.dayName`
+export const ALL_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// What the scheduler component's "workday" and "weekend" groups expand to
+export const WORKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+export const WEEKEND = ['Saturday', 'Sunday'];
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Undo steps kept by the card
+export const HISTORY_LIMIT = 50;
+
+// History overlay: how far off the actual value may be (share of the slider range)
+// and for how long before it's highlighted, so slow heating isn't flagged
+export const DEVIATION_TOLERANCE = 0.1;
+export const DEVIATION_MIN_MINUTES = 15;
+// How often the overlay reloads the recorder history
+export const HISTORY_REFRESH_MS = 5 * 60 * 1000;
+
+// Tag on scheduler entities the card created as date overrides, so the week leaves them alone
+export const OVERRIDE_TAG = 'apsley_override';
+// Also on the schedules turning the week off and back on around an override,
+// followed by the override's entity id
+export const OVERRIDE_SWITCH_TAG = 'apsley_override_of:';
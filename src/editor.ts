@@ -3,7 +3,9 @@ import { LitElement, html, TemplateResult, css, CSSResultGroup } from 'lit';
 import { HomeAssistant, fireEvent, LovelaceCardEditor } from 'custom-card-helpers';
 
 import { ScopedRegistryHost } from '@lit-labs/scoped-registry-mixin';
-import { ApsleyCardConfig } from './types';
+import { ApsleyCardConfig, DomainAdapter, ScheduleProfile, SlotState, ValueRange } from './types';
+import { migrateConfig } from './migrate';
+import { getDomainAdapter, getSlotMode } from './adapters';
 import { customElement, property, state } from 'lit/decorators';
 import { formfieldDefinition } from '../elements/formfield';
 import { selectDefinition } from '../elements/select';
@@ -18,6 +20,13 @@ export class SchedulerCardEditor extends ScopedRegistryHost(LitElement) implemen
 
   @state() private _helpers?: any;
 
+  // Why the last value typed for "Between timeslots" wasn't taken
+  @state() private _defaultValueError = '';
+
+  // Name typed for a new profile, and why the last profile edit wasn't taken
+  @state() private _newProfileName = '';
+  @state() private _profileError = '';
+
   private _initialized = false;
 
   static elementDefinitions = {
@@ -29,7 +38,7 @@ export class SchedulerCardEditor extends ScopedRegistryHost(LitElement) implemen
 
   public setConfig(config: ApsleyCardConfig): void {
     this._config = {
-      ...config,
+      ...migrateConfig(config),
       time_step: config.time_step ?? 60,          // already present
       selection_timeout: config.selection_timeout ?? 25000, // default 25s
       show_line_markers: config.show_line_markers ?? false,
@@ -50,8 +59,23 @@ export class SchedulerCardEditor extends ScopedRegistryHost(LitElement) implemen
     return this._config?.name || '';
   }
 
-  get _entity(): string {
-    return this._config?.entity || '';
+  get _entities(): string[] {
+    if (this._config?.entities?.length) return this._config.entities;
+    return this._config?.entity ? [this._config.entity] : [];
+  }
+
+  get _profiles(): ScheduleProfile[] {
+    return this._config?.profiles ?? [];
+  }
+
+  // Same as the card: the first entity's domain decides the modes and range
+  get _adapter(): DomainAdapter {
+    return getDomainAdapter((this._entities[0] ?? '').split('.')[0]);
+  }
+
+  get _valueRange(): ValueRange {
+    const entityId = this._entities[0];
+    return this._adapter.range(entityId ? this.hass?.states[entityId] : undefined);
   }
 
   get _show_warning(): boolean {
@@ -71,19 +95,28 @@ export class SchedulerCardEditor extends ScopedRegistryHost(LitElement) implemen
     const entities = Object.keys(this.hass.states);
   
     return html`
-      <!-- Entity selection -->
+      <!-- Entity selection: every picked entity follows the same timeline -->
+      <div class="entity-list">
+        ${this._entities.map((entity) => html`
+          <div class="entity-row">
+            <span>${entity}</span>
+            <button class="remove-entity" title="Remove" @click=${() => this._removeEntity(entity)}>✕</button>
+          </div>
+        `)}
+      </div>
       <mwc-select
         naturalMenuWidth
         fixedMenuPosition
-        label="Entity (Required)"
-        .configValue=${'entity'}
-        .value=${this._entity}
-        @selected=${this._valueChanged}
+        label=${this._entities.length ? 'Add entity' : 'Entity (Required)'}
+        .value=${''}
+        @selected=${this._addEntity}
         @closed=${(ev) => ev.stopPropagation()}
       >
-        ${entities.map((entity) => {
-          return html`<mwc-list-item .value=${entity}>${entity}</mwc-list-item>`;
-        })}
+        ${entities
+          .filter((entity) => !this._entities.includes(entity))
+          .map((entity) => {
+            return html`<mwc-list-item .value=${entity}>${entity}</mwc-list-item>`;
+          })}
       </mwc-select>
   
       <!-- Name (Optional) -->
@@ -108,6 +141,50 @@ export class SchedulerCardEditor extends ScopedRegistryHost(LitElement) implemen
         <mwc-list-item value="60">1 hour</mwc-list-item>
       </mwc-select>
 
+      <!-- What a dragged slot does when it runs into another -->
+      <mwc-select
+        label="When a dragged slot meets another"
+        .configValue=${"overlap_policy"}
+        .value=${this._config?.overlap_policy ?? 'block'}
+        @change=${this._valueChanged}
+        @closed=${(ev) => ev.stopPropagation()}
+      >
+        <mwc-list-item value="block">Stop at it</mwc-list-item>
+        <mwc-list-item value="push">Push it along</mwc-list-item>
+        <mwc-list-item value="trim">Trim or remove it</mwc-list-item>
+      </mwc-select>
+
+      <!-- What the entity does between timeslots -->
+      <mwc-select
+        label="Between timeslots"
+        .value=${this._defaultMode}
+        @change=${this._defaultModeChanged}
+        @closed=${(ev) => ev.stopPropagation()}
+      >
+        <mwc-list-item value="">Leave as is</mwc-list-item>
+        ${this._adapter.modes.map((mode) => html`
+          <mwc-list-item value=${mode}>
+            ${mode === 'off' ? 'Off' : mode === 'on' ? 'On' : `Set ${(this._adapter.label ?? 'a value').toLowerCase()}`}
+          </mwc-list-item>
+        `)}
+      </mwc-select>
+      ${this._defaultMode === 'value'
+        ? html`
+            <mwc-textfield
+              label=${`${this._adapter.label ?? 'Value'} between timeslots`}
+              type="number"
+              min=${this._valueRange.min}
+              max=${this._valueRange.max}
+              step=${this._valueRange.step}
+              suffix=${this._adapter.unit ?? ''}
+              helperPersistent
+              .helper=${this._defaultValueError || `${this._valueRange.min} to ${this._valueRange.max}`}
+              .value=${String(this._config?.default_state?.value ?? '')}
+              @change=${this._defaultValueChanged}
+            ></mwc-textfield>
+          `
+        : ''}
+
       <!-- Selection Timeout (ms) -->
       <mwc-textfield
         label="Selection Timeout (ms)"
@@ -148,6 +225,52 @@ export class SchedulerCardEditor extends ScopedRegistryHost(LitElement) implemen
         ></mwc-switch>
       </mwc-formfield>
 
+      <mwc-formfield .label=${"Show the past week under each day"}>
+        <mwc-switch
+          .checked=${this._config?.show_history ?? false}
+          .configValue=${"show_history"}
+          @change=${this._valueChanged}
+        ></mwc-switch>
+      </mwc-formfield>
+
+      <!-- Profiles: named copies of the card's days, picked from the card header -->
+      <div class="entity-list">
+        ${this._profiles.map((profile, index) => html`
+          <div class="entity-row">
+            <mwc-textfield
+              label="Profile name"
+              .value=${profile.name}
+              @change=${(ev: Event) => this._renameProfile(index, ev)}
+            ></mwc-textfield>
+            <button
+              class="remove-entity"
+              title="Store the card's days in this profile"
+              @click=${() => this._updateProfileDays(index)}
+            >⟳</button>
+            <button class="remove-entity" title="Remove" @click=${() => this._removeProfile(profile.name)}>✕</button>
+          </div>
+        `)}
+        <div class="entity-row">
+          <mwc-textfield
+            label="New profile from the card's days"
+            .value=${this._newProfileName}
+            @input=${(ev: Event) => {
+              this._newProfileName = (ev.currentTarget as HTMLInputElement).value;
+              this._profileError = '';
+            }}
+          ></mwc-textfield>
+          <button class="remove-entity" title="Add profile" @click=${this._addProfile}>＋</button>
+        </div>
+        ${this._profileError ? html`<div class="profile-error">${this._profileError}</div>` : ''}
+      </div>
+      <mwc-formfield .label=${"Sync when a profile is loaded"}>
+        <mwc-switch
+          .checked=${this._config?.sync_on_profile_select ?? false}
+          .configValue=${"sync_on_profile_select"}
+          @change=${this._valueChanged}
+        ></mwc-switch>
+      </mwc-formfield>
+
     `;
   }
   private get _time_step(): number {
@@ -168,6 +291,131 @@ export class SchedulerCardEditor extends ScopedRegistryHost(LitElement) implemen
     this._helpers = await (window as any).loadCardHelpers();
   }
   
+  private _addEntity(ev: Event): void {
+    const select = ev.currentTarget as HTMLSelectElement;
+    const value = select.value;
+    if (!value || this._entities.includes(value)) return;
+    this._setEntities([...this._entities, value]);
+    // The `.value=${''}` binding never changes, so Lit won't clear the pick by itself
+    select.value = '';
+  }
+
+  private _removeEntity(entity: string): void {
+    this._setEntities(this._entities.filter((e) => e !== entity));
+  }
+
+  // Store targets in `entities` and drop the legacy single `entity` key
+  private _setEntities(entities: string[]): void {
+    if (!this._config) return;
+
+    this._config = {
+      ...this._config,
+      entity: undefined,
+      entities: entities.length ? entities : undefined,
+    };
+    fireEvent(this, 'config-changed', { config: this._config });
+  }
+
+  get _defaultMode(): string {
+    const state = this._config?.default_state;
+    if (!state) return '';
+    return getSlotMode(this._adapter, { start: 0, end: 0, ...state });
+  }
+
+  private _defaultModeChanged(ev: Event): void {
+    const mode = (ev.currentTarget as HTMLSelectElement).value;
+    if (mode === this._defaultMode) return;
+
+    this._defaultValueError = '';
+    this._setDefaultState(
+      mode === '' ? undefined
+        : mode === 'off' ? { on: false, value: 0 }
+        : mode === 'on' ? { on: true, value: 0 }
+        : { on: true, value: this._defaultValueFor(this._config?.default_state?.value) },
+    );
+  }
+
+  // The current value if the adapter takes it, else the lowest one that still reads as a value
+  private _defaultValueFor(value: number | undefined): number {
+    if (value !== undefined && !this._defaultValueProblem(value)) return value;
+    const { min, step } = this._valueRange;
+    return min > 0 || !this._adapter.modes.includes('on') ? min : step;
+  }
+
+  // Why a value can't be the default, or '' if it can
+  private _defaultValueProblem(value: number): string {
+    const { min, max } = this._valueRange;
+    if (!Number.isFinite(value) || value < min || value > max) return `Enter a value from ${min} to ${max}`;
+    // Zero would read back as plain "On"
+    if (value <= 0 && this._adapter.modes.includes('on')) return 'Enter a value above 0, or pick On';
+    return '';
+  }
+
+  private _defaultValueChanged(ev: Event): void {
+    const raw = (ev.currentTarget as HTMLInputElement).value;
+    const value = raw.trim() === '' ? NaN : Number(raw);
+    this._defaultValueError = this._defaultValueProblem(value);
+    if (this._defaultValueError) return;
+    this._setDefaultState({ on: true, value });
+  }
+
+  private _setDefaultState(state: SlotState | undefined): void {
+    if (!this._config) return;
+
+    this._config = { ...this._config, default_state: state };
+    fireEvent(this, 'config-changed', { config: this._config });
+  }
+
+  private _removeProfile(name: string): void {
+    this._setProfiles(this._profiles.filter((profile) => profile.name !== name));
+  }
+
+  // A copy of the card's `days`, the week the card falls back to without schedules in HA
+  private get _configDays(): ScheduleProfile['days'] {
+    return (this._config?.days ?? []).map((day) => ({ ...day, timeSlots: day.timeSlots.map((slot) => ({ ...slot })) }));
+  }
+
+  private _addProfile(): void {
+    const name = this._newProfileName.trim();
+    if (!name) {
+      this._profileError = 'Give the profile a name';
+      return;
+    }
+    if (this._profiles.some((profile) => profile.name === name)) {
+      this._profileError = `There already is a profile called ${name}`;
+      return;
+    }
+    this._newProfileName = '';
+    this._setProfiles([...this._profiles, { name, days: this._configDays }]);
+  }
+
+  private _renameProfile(index: number, ev: Event): void {
+    const field = ev.currentTarget as HTMLInputElement;
+    const name = field.value.trim();
+    const clash = this._profiles.some((profile, i) => i !== index && profile.name === name);
+    if (!name || clash) {
+      this._profileError = name ? `There already is a profile called ${name}` : 'A profile needs a name';
+      field.value = this._profiles[index].name;
+      return;
+    }
+    this._setProfiles(this._profiles.map((profile, i) => (i === index ? { ...profile, name } : profile)));
+  }
+
+  private _updateProfileDays(index: number): void {
+    this._setProfiles(this._profiles.map((profile, i) => (i === index ? { ...profile, days: this._configDays } : profile)));
+  }
+
+  private _setProfiles(profiles: ScheduleProfile[]): void {
+    if (!this._config) return;
+
+    this._profileError = '';
+    this._config = {
+      ...this._config,
+      profiles: profiles.length ? profiles : undefined,
+    };
+    fireEvent(this, 'config-changed', { config: this._config });
+  }
+
   private _valueChanged(ev: Event): void {
     if (!this._config) return;
   
@@ -207,6 +455,21 @@ export class SchedulerCardEditor extends ScopedRegistryHost(LitElement) implemen
 
 
   static styles: CSSResultGroup = css`
+    .entity-list {
+      margin-bottom: 8px;
+    }
+    .entity-row {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: 4px 0;
+    }
+    .remove-entity {
+      background: none;
+      border: none;
+      color: var(--secondary-text-color);
+      cursor: pointer;
+    }
     mwc-select,
     mwc-textfield {
       margin-bottom: 16px;
@@ -215,6 +478,14 @@ export class SchedulerCardEditor extends ScopedRegistryHost(LitElement) implemen
     mwc-formfield {
       padding-bottom: 8px;
     }
+    .entity-row mwc-textfield {
+      flex: 1;
+      margin-bottom: 0;
+    }
+    .profile-error {
+      color: var(--error-color, #db4437);
+      font-size: 0.9em;
+    }
     mwc-switch {
       --mdc-theme-secondary: var(--switch-checked-color);
     }
@@ -0,0 +1,37 @@
+import { ApsleyCardConfig, ApsleyDay } from './types';
+
+const daysToMinutes = (days: ApsleyDay[], step: number): ApsleyDay[] =>
+  days.map((day) => ({
+    ...day,
+    timeSlots: (day.timeSlots || []).map((slot) => ({
+      ...slot,
+      start: slot.start * step,
+      end: slot.end * step,
+    })),
+  }));
+
+/**
+ * Bring an older card config up to date.
+ *
+ * Slot start/end used to be interval indices whose meaning depended on
+ * `time_step`; they are now minutes since midnight. Configs without
+ * `slot_unit: minutes` are converted once using their own time_step.
+ */
+export function migrateConfig(config: ApsleyCardConfig): ApsleyCardConfig {
+  if (config.slot_unit === 'minutes') return config;
+
+  const step = config.time_step ?? 60;
+  return {
+    ...config,
+    slot_unit: 'minutes',
+    days: config.days && daysToMinutes(config.days, step),
+    ...(config.profiles
+      ? {
+          profiles: config.profiles.map((profile) => ({
+            ...profile,
+            days: daysToMinutes(profile.days || [], step),
+          })),
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,235 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { ALL_DAYS, MINUTES_PER_DAY } from './const';
+import {
+  ApsleyDay,
+  ConditionSet,
+  ExportedDay,
+  ExportedSchedule,
+  ExportedSlot,
+  ScheduleCondition,
+  SunAnchor,
+  TimeSlot,
+} from './types';
+
+export type ExportFormat = 'json' | 'yaml';
+
+const EXPORT_VERSION = 1;
+
+// Slots ending before they start run past midnight, count their end as the next day
+const extendedEnd = (slot: TimeSlot): number => (slot.end < slot.start ? slot.end + MINUTES_PER_DAY : slot.end);
+
+const toHHMM = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+// "HH:MM" (00:00..24:00) to minutes, or null if it isn't a valid time
+const fromHHMM = (value: unknown): number | null => {
+  // YAML 1.1 tools read an unquoted 08:00 as base 60, i.e. already minutes
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value <= MINUTES_PER_DAY ? value : null;
+  }
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (Number(match[2]) > 59 || minutes > MINUTES_PER_DAY) return null;
+  return minutes;
+};
+
+/**
+ * The week as a portable document: times as "HH:MM", plus which entities
+ * and domain it was made for so an import elsewhere can be checked.
+ */
+export function exportSchedule(days: ApsleyDay[], entities: string[], domain: string): ExportedSchedule {
+  return {
+    version: EXPORT_VERSION,
+    entities,
+    domain,
+    days: days.map((day) => ({
+      dayName: day.dayName,
+      ...(day.conditions ? { conditions: day.conditions } : {}),
+      timeSlots: day.timeSlots.map(({ start, end, ...rest }) => ({
+        start: toHHMM(start),
+        end: toHHMM(end),
+        ...rest,
+      })),
+    })),
+  };
+}
+
+export function serializeSchedule(schedule: ExportedSchedule, format: ExportFormat): string {
+  return format === 'yaml' ? stringifyYaml(schedule) : JSON.stringify(schedule, null, 2);
+}
+
+const MATCH_TYPES: ScheduleCondition['match_type'][] = ['is', 'not', 'below', 'above'];
+
+// `{ event, offset }` with a known sun event and whole minutes, or null
+function parseSun(raw: unknown): SunAnchor | null {
+  const sun = raw as SunAnchor;
+  if (!sun || (sun.event !== 'sunrise' && sun.event !== 'sunset')) return null;
+  if (!Number.isInteger(sun.offset)) return null;
+  return { event: sun.event, offset: sun.offset };
+}
+
+// Only complete conditions, rebuilt field by field; null if anything is off
+function parseConditions(raw: unknown): ConditionSet | null {
+  const set = raw as ConditionSet;
+  if (!set || (set.logic !== 'and' && set.logic !== 'or') || !Array.isArray(set.conditions)) return null;
+
+  const conditions: ScheduleCondition[] = [];
+  for (const condition of set.conditions) {
+    if (typeof condition?.entity_id !== 'string' || !condition.entity_id) return null;
+    if (!MATCH_TYPES.includes(condition.match_type)) return null;
+    if (typeof condition.value !== 'string' && typeof condition.value !== 'number') return null;
+    if (condition.value === '') return null;
+    if (condition.attribute !== undefined && typeof condition.attribute !== 'string') return null;
+    conditions.push({
+      entity_id: condition.entity_id,
+      ...(condition.attribute ? { attribute: condition.attribute } : {}),
+      match_type: condition.match_type,
+      value: condition.value,
+    });
+  }
+  return { logic: set.logic, conditions };
+}
+
+function parseSlot(raw: ExportedSlot, where: string, errors: string[]): TimeSlot | null {
+  const start = fromHHMM(raw?.start);
+  const end = fromHHMM(raw?.end);
+  if (start === null || end === null) {
+    errors.push(`${where}: start and end must be times between 00:00 and 24:00`);
+    return null;
+  }
+  // An end before the start runs past midnight; 00:00 as an end is midnight
+  if (start === MINUTES_PER_DAY) {
+    errors.push(`${where}: can't start at 24:00`);
+    return null;
+  }
+  if (start === end) {
+    errors.push(`${where}: starts and ends at ${raw.start}`);
+    return null;
+  }
+  if (raw.value !== undefined && typeof raw.value !== 'number') {
+    errors.push(`${where}: value must be a number`);
+    return null;
+  }
+
+  if (raw.on !== undefined && typeof raw.on !== 'boolean') {
+    errors.push(`${where}: on must be true or false`);
+    return null;
+  }
+
+  // Only the fields the card knows, each checked, so nothing else in the file rides along
+  const slot: TimeSlot = { start, end: end || MINUTES_PER_DAY, on: raw.on !== false, value: raw.value ?? 0 };
+  for (const key of ['startSun', 'endSun'] as const) {
+    if (raw[key] === undefined) continue;
+    const sun = parseSun(raw[key]);
+    if (!sun) {
+      errors.push(`${where}: ${key} must be { event: sunrise or sunset, offset: minutes }`);
+      return null;
+    }
+    slot[key] = sun;
+  }
+  if (raw.conditions !== undefined) {
+    const conditions = parseConditions(raw.conditions);
+    if (!conditions) {
+      errors.push(`${where}: conditions are incomplete or invalid`);
+      return null;
+    }
+    if (conditions.conditions.length) slot.conditions = conditions;
+  }
+  if (raw.disabled === true) slot.disabled = true;
+  return slot;
+}
+
+/**
+ * Parse an exported week (JSON or YAML, YAML being a superset) back into
+ * days. Every problem found is returned in `errors`; `days` is only set
+ * when there are none, so a bad file never half-replaces the week.
+ */
+export function importSchedule(text: string): { schedule?: ExportedSchedule; days?: ApsleyDay[]; errors: string[] } {
+  let parsed: ExportedSchedule;
+  try {
+    parsed = parseYaml(text);
+  } catch (err) {
+    return { errors: [`Not valid JSON or YAML: ${(err as Error).message}`] };
+  }
+  if (!parsed || !Array.isArray(parsed.days)) {
+    return { errors: ['No "days" list found'] };
+  }
+
+  const errors: string[] = [];
+  const byName: Record<string, ApsleyDay> = {};
+
+  // Both are only compared against the card's, but must be what they claim to be
+  if (parsed.entities !== undefined &&
+      (!Array.isArray(parsed.entities) || !parsed.entities.every((entity) => typeof entity === 'string'))) {
+    errors.push('"entities" must be a list of entity ids');
+  }
+  if (parsed.domain !== undefined && typeof parsed.domain !== 'string') {
+    errors.push('"domain" must be a domain name, e.g. climate');
+  }
+
+  parsed.days.forEach((rawDay: ExportedDay, dayIndex) => {
+    const dayName = rawDay?.dayName;
+    if (!ALL_DAYS.includes(dayName)) {
+      errors.push(`Day ${dayIndex + 1}: unknown day "${dayName}"`);
+      return;
+    }
+    if (byName[dayName]) {
+      errors.push(`${dayName}: listed more than once`);
+      return;
+    }
+
+    if (rawDay.timeSlots !== undefined && !Array.isArray(rawDay.timeSlots)) {
+      errors.push(`${dayName}: timeSlots must be a list`);
+    }
+    const slots: TimeSlot[] = [];
+    (Array.isArray(rawDay.timeSlots) ? rawDay.timeSlots : []).forEach((rawSlot, slotIndex) => {
+      const slot = parseSlot(rawSlot, `${dayName} slot ${slotIndex + 1}`, errors);
+      if (slot) slots.push(slot);
+    });
+
+    slots.sort((a, b) => a.start - b.start);
+    for (let i = 1; i < slots.length; i++) {
+      if (slots[i].start < extendedEnd(slots[i - 1])) {
+        errors.push(
+          `${dayName}: ${toHHMM(slots[i].start)}–${toHHMM(slots[i].end)} overlaps ` +
+          `${toHHMM(slots[i - 1].start)}–${toHHMM(slots[i - 1].end)}`
+        );
+      }
+    }
+
+    const day: ApsleyDay = { dayName, timeSlots: slots };
+    if (rawDay.conditions !== undefined) {
+      const conditions = parseConditions(rawDay.conditions);
+      if (!conditions) errors.push(`${dayName}: conditions are incomplete or invalid`);
+      else if (conditions.conditions.length) day.conditions = conditions;
+    }
+    byName[dayName] = day;
+  });
+
+  // Days left out of the file are empty
+  const days = ALL_DAYS.map((dayName) => byName[dayName] ?? { dayName, timeSlots: [] });
+
+  // A slot running past midnight must be clear of the next morning's slots
+  days.forEach((day, dayIndex) => {
+    const next = days[(dayIndex + 1) % days.length];
+    day.timeSlots
+      .filter((slot) => slot.end < slot.start)
+      .forEach((slot) => {
+        const clash = next.timeSlots.find((other) => other.start < slot.end);
+        if (clash) {
+          errors.push(
+            `${day.dayName}: ${toHHMM(slot.start)}–${toHHMM(slot.end)} runs into ` +
+            `${next.dayName} ${toHHMM(clash.start)}–${toHHMM(clash.end)}`
+          );
+        }
+      });
+  });
+
+  if (errors.length) return { schedule: parsed, errors };
+  return { schedule: parsed, days, errors };
+}
@@ -1,4 +1,5 @@
 import { ActionConfig, LovelaceCard, LovelaceCardConfig, LovelaceCardEditor } from 'custom-card-helpers';
+import { HassEntity } from 'home-assistant-js-websocket';
 
 declare global {
   interface HTMLElementTagNameMap {
@@ -7,23 +8,58 @@ declare global {
   }
 }
 
+export type SunEvent = 'sunrise' | 'sunset';
+
+// A boundary relative to the sun, e.g. { event: 'sunset', offset: -60 } = an hour before sunset
+export interface SunAnchor {
+  event: SunEvent;
+  offset: number; // minutes
+}
+
 export interface TimeSlot {
+  // Minutes since midnight, 0..1440. For sun-anchored boundaries this is
+  // where today's sun times place it on the track.
   start: number;
   end: number;
   on: boolean;
   value: number;
   disabled?: boolean;
+  startSun?: SunAnchor;
+  endSun?: SunAnchor;
+  // Overrides the day's conditions for this slot
+  conditions?: ConditionSet;
 }
 
 export interface ApsleyDay {
   dayName: string;
   timeSlots: TimeSlot[];
+  // Applies to every slot of the day that has no conditions of its own
+  conditions?: ConditionSet;
+  // What the entity does outside the day's slots; overrides the card's default_state.
+  // Only read from the card config's days
+  defaultState?: SlotState;
+}
+
+// One scheduler component condition, e.g. person.me is "home"
+export interface ScheduleCondition {
+  entity_id: string;
+  attribute?: string;
+  match_type: 'is' | 'not' | 'below' | 'above';
+  value: string | number;
+}
+
+// Conditions plus how they combine: 'and' = all must match, 'or' = any
+export interface ConditionSet {
+  logic: 'and' | 'or';
+  conditions: ScheduleCondition[];
 }
 
 export interface ApsleyCardConfig extends LovelaceCardConfig {
   type: string;
   name?: string;
   entity?: string;
+  // Several entities driven by the same timeline; takes precedence over `entity`
+  entities?: string[];
   days?: ApsleyDay[];
   show_warning?: boolean;
   show_error?: boolean;
@@ -31,8 +67,214 @@ export interface ApsleyCardConfig extends LovelaceCardConfig {
   tap_action?: ActionConfig;
   hold_action?: ActionConfig;
   double_tap_action?: ActionConfig;
+  // Snapping grid in minutes for drags and new slots
   time_step?: number;
+  // 'minutes' once slot times have been migrated from time_step intervals
+  slot_unit?: 'minutes';
   selection_timeout?: number;
   show_line_markers?: boolean;
   show_today_only?: boolean;
+  // Draw what the entity actually did over the past week under each day
+  show_history?: boolean;
+  // Named weeks that can be loaded from the header
+  profiles?: ScheduleProfile[];
+  // Sync to the scheduler as soon as a profile is loaded
+  sync_on_profile_select?: boolean;
+  // What a dragged slot does to the slots it runs into (default 'block')
+  overlap_policy?: OverlapPolicy;
+  // What the entity does between slots; synced as explicit timeslots filling the gaps
+  default_state?: SlotState;
+}
+
+// block: stop at the neighbour; push: move neighbours along; trim: cut back or remove them
+export type OverlapPolicy = 'block' | 'push' | 'trim';
+
+// A slot in an exported file: times as "HH:MM" instead of minutes
+export interface ExportedSlot extends Omit<TimeSlot, 'start' | 'end'> {
+  start: string;
+  end: string;
+}
+
+export interface ExportedDay {
+  dayName: string;
+  conditions?: ConditionSet;
+  timeSlots: ExportedSlot[];
+}
+
+// What import/export reads and writes, as JSON or YAML
+export interface ExportedSchedule {
+  version: number;
+  // What the week was made for, so an import into another card can be checked
+  entities: string[];
+  domain: string;
+  days: ExportedDay[];
+}
+
+// A full week saved under a name, e.g. "Normal" or "Holiday"
+export interface ScheduleProfile {
+  name: string;
+  days: ApsleyDay[];
+}
+
+// A date-bound scheduler entity that takes over from the week, e.g. a vacation
+export interface ScheduleOverride {
+  entityId: string;
+  name: string;
+  // YYYY-MM-DD, both inclusive
+  startDate: string;
+  endDate: string;
+  // Weekly schedules turned off while it runs, by the schedule in `pauseEntityId`,
+  // and back on the day after by the one in `resumeEntityId`
+  pauses: string[];
+  pauseEntityId?: string;
+  resumeEntityId?: string;
+  // What it does each day, read back from its timeslots
+  timeSlots: TimeSlot[];
+}
+
+// One entry of a schedule entity's `actions` attribute (`data` on newer scheduler versions)
+export interface ScheduleActionAttribute {
+  service: string;
+  entity_id?: string;
+  data?: Record<string, unknown>;
+  service_data?: Record<string, unknown>;
+}
+
+// State attributes of a scheduler component `switch.schedule_*` entity
+export interface ScheduleAttributes {
+  friendly_name?: string;
+  weekdays?: string[];
+  // "HH:MM:SS - HH:MM:SS" (or sun-relative), parallel to `actions`
+  timeslots?: string[];
+  entities?: string[];
+  actions?: ScheduleActionAttribute[];
+  repeat_type?: string;
+  tags?: string[];
+}
+
+// A schedule for our entities with actions no adapter can read; never loaded or synced
+export interface UnreadableSchedule {
+  entityId: string;
+  services: string[];
+}
+
+// A `switch.schedule_*` entity from the scheduler component, parsed into card slots
+export interface ExistingSchedule {
+  entityId: string;
+  dayNames: string[];
+  timeSlots: TimeSlot[];
+  attributes: ScheduleAttributes;
+}
+
+// A slot by position: index into the card's days, then into that day's timeSlots
+export interface SlotRef {
+  dayIndex: number;
+  slotIndex: number;
+}
+
+export type SlotMode = 'off' | 'on' | 'value';
+
+// The part of a TimeSlot an action decides
+export type SlotState = Pick<TimeSlot, 'on' | 'value'>;
+
+export interface ValueRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Everything the card needs to know about one entity domain: which modes a
+ * slot can be in, the slider range, and how slots map to and from actions.
+ */
+export interface DomainAdapter {
+  domain: string;
+  modes: SlotMode[];
+  // Slider label and unit, only used when `modes` includes 'value'
+  label?: string;
+  unit?: string;
+  defaultValue: number;
+  range(stateObj?: HassEntity): ValueRange;
+  buildActions(entityId: string, slot: TimeSlot): SlotAction[];
+  // Returns null when the service isn't one this adapter produces
+  parseAction(service: string, data: Record<string, unknown>): SlotState | null;
+  // What a recorded state actually was, for the history overlay; plain on/off if left out
+  readState?(state: string, attributes: Record<string, unknown>): SlotState | null;
+}
+
+// One action inside a scheduler timeslot, as built by `_buildSlotActions`
+export interface SlotAction {
+  entity_id: string;
+  service: string;
+  service_data: Record<string, unknown>;
+}
+
+export interface SchedulerTimeslot {
+  start: string;
+  stop: string;
+  actions: SlotAction[];
+  conditions?: ScheduleCondition[];
+  condition_type?: 'and' | 'or';
+}
+
+// One entry of `history/history_during_period` (compressed: state, attributes, last updated in seconds)
+export interface HistoryState {
+  s: string;
+  a?: Record<string, unknown>;
+  lu: number;
+}
+
+// A stretch of a past day (minutes) with what the entity actually did, checked against the plan
+export interface HistorySegment {
+  start: number;
+  end: number;
+  state: SlotState;
+  deviation: boolean;
+}
+
+// One schedule as listed by the scheduler component's `scheduler` websocket command
+export interface SchedulerWSItem {
+  schedule_id: string;
+  // Null until the switch entity is registered
+  entity_id?: string | null;
+  name?: string | null;
+  weekdays?: string[];
+  timeslots?: SchedulerTimeslot[];
+  start_date?: string | null;
+  end_date?: string | null;
+  repeat_type?: string;
+  enabled?: boolean;
+  tags?: string[];
+}
+
+// Payload for `scheduler.add` / `scheduler.edit`
+export interface SchedulerServiceData {
+  name?: string;
+  weekdays?: string[];
+  timeslots?: SchedulerTimeslot[];
+  repeat_type?: string;
+  tags?: string[];
+  // YYYY-MM-DD, only set for date overrides
+  start_date?: string;
+  end_date?: string;
+}
+
+// A single scheduler service call that `_syncSchedules` will make
+export interface SyncOperation {
+  type: 'add' | 'edit' | 'remove';
+  dayNames: string[];
+  entityId?: string;
+  data?: SchedulerServiceData;
+  // Snapshot of the schedule being edited or removed, used for rollback
+  previous?: ExistingSchedule;
+}
+
+// Outcome of `_syncSchedules` for one day, shown in the result panel
+export interface SyncDayResult {
+  dayName: string;
+  status: 'unchanged' | 'synced' | 'cleared' | 'failed';
+  added: number;
+  removed: number;
+  error?: string;
+  rolledBack?: boolean;
 }
\ No newline at end of file